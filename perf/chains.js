@@ -0,0 +1,52 @@
+
+// - Imports - //
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { execFileSync } = require("child_process");
+
+
+// - Config - //
+
+// Usage: `node perf/chains.js [5 20 50]`.
+// .. For each count creates a chain of mixins, where each mixin requires the previous one, and measures `tsc` type-check time.
+const counts = process.argv.slice(2).map(Number).filter(Boolean);
+const chainCounts = counts.length ? counts : [5, 20, 50];
+const tscPath = path.resolve(__dirname, "../node_modules/typescript/bin/tsc");
+const srcPath = path.resolve(__dirname, "../src/index");
+
+
+// - Helpers - //
+
+function createChain(count) {
+    const lines = [`import { mixins, ClassType } from ${JSON.stringify(srcPath)};`, ""];
+    for (let i = 0; i < count; i++) {
+        const base = i ? `ReturnType<typeof mixin${i - 1}>` : "ClassType";
+        lines.push(`export const mixin${i} = (Base: ${base}) => class Test${i} extends Base { member${i}: number = ${i}; method${i}(): number { return this.member${i}; } };`);
+    }
+    lines.push("");
+    lines.push(`export class MyMix extends mixins(${Array.from({ length: count }, (_, i) => `mixin${i}`).join(", ")}) {`);
+    lines.push(`    test(): number { return this.member0 + this.method${count - 1}(); }`);
+    lines.push("}");
+    return lines.join("\n") + "\n";
+}
+
+function measure(count) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mixin-types-perf-"));
+    const file = path.join(dir, `chain${count}.ts`);
+    fs.writeFileSync(file, createChain(count));
+    try {
+        const output = execFileSync(process.execPath, [tscPath, "--noEmit", "--skipLibCheck", "--extendedDiagnostics", "--target", "es2017", "--moduleResolution", "node", "--strictNullChecks", file], { encoding: "utf8" });
+        const read = (label) => (output.match(new RegExp(`^${label}:\\s+(.+)$`, "m")) || [])[1];
+        return { count, checkTime: read("Check time"), totalTime: read("Total time"), instantiations: read("Instantiations"), memory: read("Memory used") };
+    }
+    finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+
+// - Run - //
+
+console.table(chainCounts.map(measure));
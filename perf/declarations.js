@@ -0,0 +1,83 @@
+// - Imports - //
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { execFileSync } = require("child_process");
+
+
+// - Config - //
+
+// Usage: `node perf/declarations.js [10] [20]` - the chain length and the number of uses in the consumer.
+// .. Creates a chain of mixins and a class extending it - both inline (`extends mixins(...)`) and using a named interface (`extends mixinsAs<MyMixType, MyMixins>(...)`).
+// .. For each, measures the size of the emitted `.d.ts` file, and the `tsc` type-check time of a consumer using the class through the `.d.ts` file.
+const count = Number(process.argv[2]) || 10;
+const consumerUses = Number(process.argv[3]) || 20;
+const tscPath = path.resolve(__dirname, "../node_modules/typescript/bin/tsc");
+const srcPath = path.resolve(__dirname, "../src/index");
+const tscArgs = ["--skipLibCheck", "--target", "es2017", "--module", "es6", "--moduleResolution", "node", "--strictNullChecks"];
+
+
+// - Helpers - //
+
+function createChain(count, named) {
+    const lines = [`import { mixins, mixinsAs, ClassType, MergeMixins } from "./src/index";`, ""];
+    for (let i = 0; i < count; i++) {
+        const base = i ? `ReturnType<typeof mixin${i - 1}>` : "ClassType";
+        lines.push(`export const mixin${i} = (Base: ${base}) => class Test${i} extends Base { member${i}: number = ${i}; method${i}(): number { return this.member${i}; } static STATIC_${i}: number = ${i}; };`);
+    }
+    const mixinNames = Array.from({ length: count }, (_, i) => `mixin${i}`);
+    lines.push("");
+    if (named) {
+        lines.push(`type MyMixins = [${mixinNames.map(name => `typeof ${name}`).join(", ")}];`);
+        lines.push(`export interface MyMixType extends MergeMixins<MyMixins> {}`);
+        lines.push(`export class MyMix extends mixinsAs<MyMixType, MyMixins>(${mixinNames.join(", ")}) {`);
+    }
+    else
+        lines.push(`export class MyMix extends mixins(${mixinNames.join(", ")}) {`);
+    lines.push(`    test(): number { return this.member0 + this.method${count - 1}(); }`);
+    lines.push("}");
+    return lines.join("\n") + "\n";
+}
+
+function createConsumer(count) {
+    const lines = [`import { MyMix } from "./chain";`, ""];
+    for (let i = 0; i < consumerUses; i++) {
+        const n = i % count;
+        lines.push(`export class MyMix${i} extends MyMix { use(): number { return this.member${n} + this.method${n}() + MyMix${i}.STATIC_${n}; } }`);
+        lines.push(`export function use${i}(myMix: MyMix): number { return myMix.test() + myMix.constructor.STATIC_${n}; }`);
+    }
+    return lines.join("\n") + "\n";
+}
+
+function measure(named) {
+    // Copy the src to be emitted along, so that the consumer reads the declarations (like a package would).
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mixin-types-perf-"));
+    const outDir = path.join(dir, "out");
+    const file = path.join(dir, "chain.ts");
+    fs.mkdirSync(path.join(dir, "src"));
+    fs.copyFileSync(srcPath + ".ts", path.join(dir, "src", "index.ts"));
+    fs.writeFileSync(file, createChain(count, named));
+    try {
+        execFileSync(process.execPath, [tscPath, "--declaration", "--emitDeclarationOnly", "--outDir", outDir, ...tscArgs, file], { encoding: "utf8" });
+        const consumerFile = path.join(outDir, "consumer.ts");
+        fs.writeFileSync(consumerFile, createConsumer(count));
+        const output = execFileSync(process.execPath, [tscPath, "--noEmit", "--extendedDiagnostics", ...tscArgs, consumerFile], { encoding: "utf8" });
+        const read = (label) => (output.match(new RegExp(`^${label}:\\s+(.+)$`, "m")) || [])[1];
+        return {
+            declaration: named ? "interface" : "inline",
+            dtsBytes: fs.statSync(path.join(outDir, "chain.d.ts")).size,
+            consumerCheckTime: read("Check time"),
+            consumerInstantiations: read("Instantiations"),
+            consumerMemory: read("Memory used")
+        };
+    }
+    finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+
+// - Run - //
+
+console.table([measure(false), measure(true)]);
@@ -2,8 +2,11 @@
 // - Class mixin helpers - //
 
 /** Helper to create a mixed class from a sequence of mixins in ascending order: `[mixinTest1, mixinTest2, ...]`.
- * - The typeguard evaluates each mixin up to 20 individually (by mixin form and implied requirements), the rest is not evaluated.
- * - Note that in cases where mixins are dependent on each other and support type arguments, provide them for all in the chain.
+ * - The typeguard evaluates each mixin individually (by mixin form and implied requirements) - for chains of any length.
+ * - Note that in cases where mixins are dependent on each other and support type arguments, provide them for all in the chain - or use `mixinsBuilder` to provide them once.
+ * - Note that a mixin already in the chain is skipped. To report duplicates as errors instead, use `createMixins({ strictDuplicates: true })`.
+ * - Note that the chain can also include plain-object traits: `{ methods, getters, statics }` - see `MixinTrait`.
+ * - Note that the chain can also include falsy entries, which are skipped: `isDev && mixinDebug`. The members of such conditional mixins are typed as optional.
  * - Note that you should likely define constructor arguments by adding a constructor statement on the extending class.
  *      * Alternatively could use `AsMixin`, `AsInstance` or `AsClass` to help with retyping the class with constructor args.
  *      * By default `mixins` simply tries to read them from the last mixin, but that might not be correct (depending on the chain), nor as explicit as liked.
@@ -14,8 +17,12 @@
  * 
  * // On the JS side, the feature is implemented like this.
  * // .. For example: `class MyClass extends mixins(mixinTest1, mixinTest2) { }`.
+ * // .. The `resolveMixins` includes the mixins required by `defineMixin` (in topological order) and skips duplicates.
+ * // .. The `mixChain` applies the mixins in order using `applyMixin`: it simply calls `mixin(ExtBase)` and brands the new class for `isMixedWith`.
+ * // .. Then it uses `composeMethods` to add a class on top to wire together the composed methods and merged statics (if any) - see `MixinMeta`.
+ * // .. Finally, it records the chain for `getMixinChain` and names the mixed class by the chain, like: `Test2<Test1<Object>>`.
  * export function mixins(...mixins) {
- *     return mixins.reduce((ExtBase, mixin) => mixin(ExtBase), Object);
+ *     return mixChain(Object, resolveMixins(mixins, Object));
  * }
  * 
  * 
@@ -38,7 +45,7 @@
  * }
  * 
  * // Test failure.
- * // .. mixinTest3 is red-underlined (not assignable to `never`) as it requires mixinTest1.
+ * // .. mixinTest3 is red-underlined (not assignable to `MixinError<0, ...>`) as it requires mixinTest1: the error lists the missing members.
  * class MyFail extends mixins(mixinTest3) { }
  * 
  * 
@@ -126,13 +133,16 @@
  *  
  * ```
  */
-export function mixins<Mixins extends Array<(Base: ClassType) => ClassType>>(...mixins: ValidateMixins<Mixins>): MergeMixins<Mixins> {
-    return (mixins as Array<(Base: ClassType) => ClassType>).reduce((ExtBase, mixin) => mixin(ExtBase), Object) as MergeMixins<Mixins>;
+export function mixins<Mixins extends Array<MixinEntry | FalsyMixin>>(...mixins: ValidateMixins<Mixins>): MergeMixins<Mixins> {
+    return mixChain(Object, resolveMixins(mixins as Array<MixinEntry | FalsyMixin>, Object)) as MergeMixins<Mixins>;
 }
 
 /** Helper to create a mixed class with a base class and a sequence of mixins in ascending order: `[Base, mixinTest1, mixinTest2, ...]`.
- * - The typeguard evaluates each mixin up to 20 individually (by mixin form and implied requirements), the rest is not evaluated.
+ * - The typeguard evaluates each mixin individually (by mixin form and implied requirements) - for chains of any length.
  * - Note that in cases where mixins are dependent on each other and support type arguments, provide them for all in the chain, including the base class.
+ * - Note that a mixin already in the chain is skipped - including one already applied in the base class (by `mixins` or `mixinsWith`).
+ * - Note that the chain can also include plain-object traits: `{ methods, getters, statics }` - see `MixinTrait`.
+ * - Note that the chain can also include falsy entries, which are skipped: `isDev && mixinDebug`. The members of such conditional mixins are typed as optional.
  * - Note that you should likely define constructor arguments by adding a constructor statement on the extending class.
  *      * Alternatively could use `AsMixin`, `AsInstance` or `AsClass` to help with retyping the class with constructor args.
  *      * By default `mixinsWith` simply tries to read them from the last mixin, but that might not be correct (depending on the chain), nor as explicit as liked.
@@ -143,8 +153,12 @@ export function mixins<Mixins extends Array<(Base: ClassType) => ClassType>>(...
  * 
  * // On the JS side, the feature is implemented like this.
  * // .. For example: `class MyClass extends mixinsWith(BaseClass, mixinTest1, mixinTest2) { }`.
+ * // .. The `resolveMixins` includes the mixins required by `defineMixin` (in topological order) and skips duplicates.
+ * // .. The `mixChain` applies the mixins in order using `applyMixin`: it simply calls `mixin(ExtBase)` and brands the new class for `isMixedWith`.
+ * // .. Then it uses `composeMethods` to add a class on top to wire together the composed methods and merged statics (if any) - see `MixinMeta`.
+ * // .. Finally, it records the chain for `getMixinChain` and names the mixed class by the chain, like: `Test2<Test1<Object>>`.
  * export function mixinsWith(Base, ...mixins) {
- *     return mixins.reduce((ExtBase, mixin) => mixin(ExtBase), Base);
+ *     return mixChain(Base, resolveMixins(mixins, Base));
  * }
  * 
  * 
@@ -264,10 +278,954 @@ export function mixins<Mixins extends Array<(Base: ClassType) => ClassType>>(...
  * 
  * ```
  */
-export function mixinsWith<Base extends ClassType, Mixins extends Array<(Base: ClassType) => ClassType>>(Base: Base, ...mixins: ValidateMixins<Mixins, Base>): MergeMixinsWith<Base, Mixins> {
-    return (mixins as Array<(Base: ClassType) => ClassType>).reduce((ExtBase, mixin) => mixin(ExtBase), Base) as MergeMixinsWith<Base, Mixins>;
+export function mixinsWith<Base extends AbstractClassType, Mixins extends Array<MixinEntry | FalsyMixin>>(Base: Base, ...mixins: ValidateMixins<Mixins, Base>): MergeMixinsWith<Base, Mixins> {
+    return mixChain(Base as unknown as ClassType, resolveMixins(mixins as Array<MixinEntry | FalsyMixin>, Base as unknown as ClassType)) as MergeMixinsWith<Base, Mixins>;
 }
 
+/** Helper to create a mixed class typed by a named class type - for compact declarations: `mixinsAs<MyMixType, MyMixins>(mixinTest1, mixinTest2)`.
+ * - The named class type is an interface extending `MergeMixins`: `interface MyMixType extends MergeMixins<MyMixins> { }`. The .d.ts file then refers to it instead of writing out the merged class type in full.
+ * - Unlike casting `mixins(...) as MyMixType`, the types are checked against each other:
+ *      * The arguments must match the tuple (in order), and the chain is evaluated like in `mixins`.
+ *      * The named class type must be merged from the same tuple - as read from its chain (see `MixinChainOf`).
+ * - On the JS side, returns `mixins(...mixins)`.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * export const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * export const mixinTest2 = (Base: ClassType) => class Test2 extends Base { name: string = ""; }
+ * 
+ * // Name the merged class type, and use it as the base.
+ * type MyMixins = [typeof mixinTest1, typeof mixinTest2];
+ * export interface MyMixType extends MergeMixins<MyMixins> { }
+ * export class MyMix extends mixinsAs<MyMixType, MyMixins>(mixinTest1, mixinTest2) { }
+ * 
+ * // Test failure.
+ * // .. mixinTest1 is red-underlined: the arguments do not match the tuple.
+ * export class MyFail extends mixinsAs<MyMixType, MyMixins>(mixinTest2, mixinTest1) { }
+ * 
+ * ```
+ */
+export function mixinsAs<Named extends NamedMixinsClass<Mixins>, Mixins extends Array<MixinEntry | FalsyMixin>>(...mixins: ValidateMixins<Mixins>): Named {
+    return mixChain(Object, resolveMixins(mixins as Array<MixinEntry | FalsyMixin>, Object)) as unknown as Named;
+}
+
+/** Helper to create a mixed class with a base class typed by a named class type - for compact declarations: `mixinsWithAs<MyMixType, typeof MyBase, MyMixins>(MyBase, mixinTest1, mixinTest2)`.
+ * - The named class type is an interface extending `MergeMixinsWith`: `interface MyMixType extends MergeMixinsWith<typeof MyBase, MyMixins> { }`.
+ * - The types are checked like in `mixinsAs`, including the base class. On the JS side, returns `mixinsWith(Base, ...mixins)`.
+ */
+export function mixinsWithAs<Named extends NamedMixinsClass<Mixins, Base>, Base extends AbstractClassType, Mixins extends Array<MixinEntry | FalsyMixin>>(Base: Base, ...mixins: ValidateMixins<Mixins, Base>): Named {
+    return mixChain(Base as unknown as ClassType, resolveMixins(mixins as Array<MixinEntry | FalsyMixin>, Base as unknown as ClassType)) as unknown as Named;
+}
+
+/** Create the `mixins` and `mixinsWith` functions using custom settings. See `MixinsSettings` for the options.
+ * - The default `mixins` and `mixinsWith` functions use the default settings.
+ * 
+ * ```
+ * 
+ * // Create strict versions of the funcs - they report duplicate mixins as errors (on the TS and JS sides).
+ * const { mixins: mixinsStrict, mixinsWith: mixinsWithStrict } = createMixins({ strictDuplicates: true });
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base { name: string = ""; }
+ * 
+ * // Test.
+ * class MyMix extends mixins(mixinTest1, mixinTest2, mixinTest1) { } // Ok, the 2nd mixinTest1 is skipped.
+ * class MyFail extends mixinsStrict(mixinTest1, mixinTest2, mixinTest1) { } // The 2nd mixinTest1 is red-underlined. Throws an error on JS side.
+ * class MyFail2 extends mixinsWithStrict(MyMix, mixinTest2) { } // Throws an error on JS side.
+ * 
+ * // Create cached versions of the funcs - identical chains return the same class.
+ * const { mixins: mixinsCached } = createMixins({ cache: true });
+ * mixinsCached(mixinTest1, mixinTest2) === mixinsCached(mixinTest1, mixinTest2); // true
+ * 
+ * // Create funcs with per-mixin options - each mixin can declare its options as its first constructor argument.
+ * const { mixins: mixinsOpts } = createMixins({ mixinOptions: true });
+ * const mixinTest3 = (Base: ClassType) => class Test3 extends Base {
+ *     flag: boolean;
+ *     constructor(options: { flag: boolean; }) { super(); this.flag = options.flag; }
+ * }
+ * class MyOptsMix extends mixinsOpts(mixinTest1, mixinTest3) { }
+ * new MyOptsMix({ flag: true });
+ * 
+ * // Create funcs that do not rename the mixed classes - by default they are named by the chain.
+ * const { mixins: mixinsUnnamed } = createMixins({ className: false });
+ * mixins(mixinTest1, mixinTest2).name; // "Test2<Test1<Object>>"
+ * mixinsUnnamed(mixinTest1, mixinTest2).name; // "Test2"
+ * 
+ * // Create funcs that validate the chain on the JS side - for plain JS consumers and `any` typed call sites.
+ * const { mixins: mixinsValidated } = createMixins({ validate: true });
+ * const mixinForgot = (Base: ClassType) => class Forgot { };
+ * mixinsValidated(mixinTest1, mixinForgot); // Throws: "... does not extend the base class given to the mixin. Is `extends Base` missing?"
+ * 
+ * ```
+ */
+export function createMixins<Settings extends MixinsSettings = {}>(settings?: Settings): { mixins: MixinsFunc<Settings>; mixinsWith: MixinsWithFunc<Settings>; } {
+    const strictDuplicates = !!settings?.strictDuplicates;
+    const validate = !!settings?.validate;
+    const applyLayer = settings?.mixinOptions ? (settings.cache ? applyMixinRoutedCached : applyMixinRouted) : (settings?.cache ? applyMixinCached : applyMixin);
+    const applyBase = (Base: ClassType, mixin: (Base: ClassType) => ClassType) => applyLayer(Base, mixin, validate);
+    const apply = settings?.warnShadowedMethods ? (Base: ClassType, mixin: (Base: ClassType) => ClassType) => warnShadowedMethods(Base, applyBase(Base, mixin), mixin) : applyBase;
+    const getEntry = settings?.mixinOptions ? (settings.cache ? getOptionsEntryCached : getOptionsEntry) : (Class: ClassType) => Class;
+    const compose = settings?.cache ? composeMethodsCached : composeMethods;
+    const finish = (Class: ClassType) => compose(getEntry(Class));
+    const getName = settings?.className === false ? null : typeof settings?.className === "function" ? settings.className : getChainName;
+    return {
+        mixins: ((...mixins: Array<MixinEntry | FalsyMixin>) => mixChain(Object, resolveMixins(mixins, Object, strictDuplicates, validate), apply, finish, getName)) as MixinsFunc<any>,
+        mixinsWith: ((Base: ClassType, ...mixins: Array<MixinEntry | FalsyMixin>) => mixChain(Base, resolveMixins(mixins, Base, strictDuplicates, validate), apply, finish, getName)) as MixinsWithFunc<any>
+    };
+}
+
+/** Settings for the `mixins` and `mixinsWith` functions created by `createMixins`. */
+export interface MixinsSettings {
+    /** If true, reports duplicate mixins as errors: on the TS side as a `MixinError` and on the JS side by throwing an error. Defaults to false.
+     * - By default, a mixin already in the chain is skipped - including one already applied in the base class given to `mixinsWith`.
+     * - Note that mixins included automatically as requirements (see `defineMixin`) are never reported as duplicates.
+     * - Note that the TS side cannot see the mixins already applied in the base class, so those are only reported on the JS side.
+     * - Note that the TS side compares the mixins by type identity (the JS side by reference). So two different mixins of the exact same type are reported as duplicates on the TS side only, and a generic mixin is not the same as its instantiated form (`mixinTest1<MyInfo>`) on the TS side.
+     */
+    strictDuplicates?: boolean;
+    /** If true, identical chains return the same class: keyed by the base class and the ordered (resolved) mixins. Defaults to false.
+     * - The classes are cached per layer, so chains with the same start share the same classes for the common part.
+     * - Generic usages hit the cache as well, since `mixinTest1<MyInfo>` is the same function as `mixinTest1` on the JS side.
+     * - The cache is held weakly, so the cached classes are garbage collectable once the base class or the mixins are.
+     * - Note that the static side is shared as well: modifying the statics of a cached class affects all its users.
+     */
+    cache?: boolean;
+    /** If true, each mixin can declare a typed options object as its first constructor argument, and the mixed class routes each mixin its options. Defaults to false.
+     * - The mixed class constructor accepts the intersection of all the options: `(options: MixinsOptions<Mixins>)`.
+     *      * With `mixinsWith`, the constructor args of the base class follow after the options: `(options, ...baseArgs)`.
+     * - Each mixin gets its options as the first constructor argument - no matter what the mixin on top of it passes to `super(...)`.
+     *      * If the mixin is defined with `defineMixin({ optionKeys: ["num"] }, ...)`, it only gets its slice. Otherwise it gets the whole options object.
+     * - The mixins can simply call `super()`: the base class gets its args from the mixed class constructor.
+     */
+    mixinOptions?: boolean;
+    /** If true, warns (using `console.warn`) when a mixin shadows a method of an earlier mixin (or the base class) without calling `super`. Defaults to false.
+     * - Meant for development: the check reads the source code of each method (for `super.myMethod` or `super[`), so it's a heuristic.
+     * - The composed methods (see `compose` in `MixinMeta`) are not warned about - as long as declared by the mixin or earlier in the chain.
+     * - The type conflicts are checked on the TS side by `ValidateMixins` regardless of this setting (see `MixinConflicts`).
+     */
+    warnShadowedMethods?: boolean;
+    /** Customize or disable the naming of the mixed classes. Defaults to true.
+     * - By default, the mixed class is named by its chain: `Test3<Test2<Test1<Object>>>` - for stack traces, devtools and error messages.
+     *      * In addition, a `Symbol.toStringTag` getter returning the class name of the instance is added (unless the chain defines one), so it shows up in `Object.prototype.toString` and Node's inspect output.
+     * - If a function, it's used to create the name from the chain (see `MixinChain`). If false, the mixed classes are not renamed at all - eg. for size-sensitive builds.
+     */
+    className?: boolean | ((chain: MixinChain) => string);
+    /** If true, checks the chain on the JS side and throws descriptive errors - for plain JS consumers and `any` typed call sites. Defaults to false.
+     * - Each entry must be a mixin function, a trait object or falsy (to be skipped). A class given as an entry is reported as well: it should be a function returning a class.
+     * - Each mixin must return a class - and the class must extend the base class it was given (a common bug is forgetting `extends Base`).
+     *      * With `cache: true`, the classes taken from the cache are checked as well - the cache is shared with the funcs that do not validate.
+     * - The TS side is checked by `ValidateMixins` regardless of this setting.
+     */
+    validate?: boolean;
+}
+
+/** Create a builder for a mixin chain with a shared type-argument context: `mixinsBuilder<MyInfo>().add(mixinTest1).add(mixinTest2).mix()`.
+ * - Each generic mixin that declares the context in its `Base` argument (`MixinContext<Info>`) gets the Context as its type argument automatically.
+ *      * So the `Info` parameter cannot drift between the mixins in the chain - nor be forgotten (resulting in `unknown`).
+ *      * The mixins not declaring the context are added as is.
+ * - Each `add` evaluates the chain so far (like `ValidateMixins`): if the mixin does not fit, returns a `MixinError` instead of the builder.
+ * - Use `base(MyBase)` to mix on top of a base class (like `mixinsWith`), and `mix()` to create the mixed class (like `mixins`).
+ * - The builder is immutable: `add` and `base` return a new builder. So a partial builder can be shared and continued in many ways.
+ * - Note that the mixins required by `defineMixin` are pulled in as is - add them explicitly (before) to bind the context to them.
+ *
+ * ```
+ *
+ * // Create mixins - the generic ones declare the context in their `Base` argument.
+ * const mixinTest1 = <Info = {}>(Base: ClassType & MixinContext<Info>) => class Test1 extends Base { num: number = 5; testMe(testInfo: Info): void {} }
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base { name: string = ""; }
+ * const mixinTest3 = <Info = {}>(Base: ReturnType<typeof mixinTest1<Info>> & MixinContext<Info>) => class Test3 extends Base { info?: Info; }
+ *
+ * // Create a mixed class - MyInfo is provided once.
+ * type MyInfo = { something: boolean; };
+ * class MyMix extends mixinsBuilder<MyInfo>().add(mixinTest1).add(mixinTest2).add(mixinTest3).mix() {
+ *     test() {
+ *         this.testMe({ something: true }); // Requires `MyInfo`.
+ *         this.info; // MyInfo | undefined
+ *     }
+ * }
+ *
+ * // Test failure.
+ * // .. `mix` is red-underlined: the `add` returned `MixinError<0, "The required base is not satisfied by the earlier mixins.", ...>`.
+ * class MyFail extends mixinsBuilder<MyInfo>().add(mixinTest3).mix() { }
+ *
+ * // With a base class.
+ * class MyBase { static STATIC_ONE = 1; }
+ * class MyMixWith extends mixinsBuilder<MyInfo>().base(MyBase).add(mixinTest1).mix() { }
+ *
+ * ```
+ */
+export function mixinsBuilder<Context = {}>(): MixinsBuilder<Context> {
+    return createMixinsBuilder(null, []) as unknown as MixinsBuilder<Context>;
+}
+
+/** Create an (immutable) builder with the given base class and mixins. Used internally by `mixinsBuilder`. */
+function createMixinsBuilder(Base: ClassType | null, mixins: Array<(Base: ClassType) => ClassType>): MixinsBuilder<any, any, any[]> {
+    return {
+        add: (mixin: (Base: ClassType) => ClassType) => createMixinsBuilder(Base, [...mixins, mixin]),
+        base: (NewBase: ClassType) => createMixinsBuilder(NewBase, mixins),
+        mix: () => mixChain(Base || Object, resolveMixins(mixins, Base || Object))
+    } as unknown as MixinsBuilder<any, any, any[]>;
+}
+
+/** Class decorator applying the mixins on top of the decorated class: `@withMixins(mixinTest1, mixinTest2) class MyMix { }`.
+ * - Works with the standard (TC39) decorators of TS 5+, and with the legacy `experimentalDecorators`. On the JS side, returns `mixinsWith(DecoratedClass, ...mixins)`.
+ * - The chain is evaluated against the decorated class (like `mixinsWith`): if it does not fit, the decorator is red-underlined with the `MixinError`.
+ * - Note that TS does not let decorators change the type of the class. So declare a matching interface for the instance side: `interface MyMix extends WithMixins<[...]> { }`.
+ *      * The static side of the mixins is not seen on the class. If needed, retype it: `MyMix as MergeMixinsWith<typeof MyMix, [...]>`.
+ * - Note that the decorated class is the base of the chain, so the mixins override its members of the same name - not the other way around.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base { name: string = ""; }
+ * 
+ * // Create a decorated class and a matching interface.
+ * @withMixins(mixinTest1, mixinTest2)
+ * class MyMix {
+ *     test() { return this.name + this.num; } // The members of the mixins are recognized through the interface.
+ * }
+ * interface MyMix extends WithMixins<[typeof mixinTest1, typeof mixinTest2]> { }
+ * 
+ * // Test.
+ * new MyMix().num; // number
+ * isMixedWith(new MyMix(), mixinTest1); // true
+ * 
+ * // Test failure.
+ * // .. The decorator is red-underlined: mixinTest3 requires mixinTest1.
+ * const mixinTest3 = (Base: ReturnType<typeof mixinTest1>) => class Test3 extends Base { }
+ * @withMixins(mixinTest3)
+ * class MyFail { }
+ * 
+ * ```
+ */
+export function withMixins<Mixins extends Array<MixinEntry | FalsyMixin>>(...mixins: Mixins): WithMixinsDecorator<Mixins> {
+    return ((Class: ClassType, context?: { kind: string; }) => {
+        if (context && context.kind !== "class")
+            throw new Error("mixin-types: The withMixins decorator can only be used on classes, not on a " + context.kind + ".");
+        return mixChain(Class, resolveMixins(mixins as Array<MixinEntry | FalsyMixin>, Class));
+    }) as unknown as WithMixinsDecorator<Mixins>;
+}
+
+/** Bundle a sequence of mixins into a single reusable mixin: `composeMixins(mixinTest1, mixinTest2)` returns `(Base) => Class`.
+ * - The composed mixin can be used like any other mixin: in `mixins`, `mixinsWith`, `ValidateMixins` and even in another `composeMixins`.
+ * - The chain is evaluated like in `mixins`, except that the requirements not fulfilled within the chain are left for the base class to provide.
+ *      * So the composed mixin requires the union of what the inner chain still needs (see `ComposedMixin`), and returns the merged chain on top of the base.
+ * - On the JS side, the inner mixins are resolved and applied on top of the base - skipping the ones already applied in it.
+ *      * Each inner mixin is applied like the mixins of the outer chain: with the settings of the `createMixins` funcs (eg. routed options, validation and shadowing warnings).
+ *      * Each inner mixin is branded normally, so `isMixedWith` works for them, too. The composed methods and merged statics are wired up by the outer `mixins` or `mixinsWith`.
+ *      * The name of the mixed class includes the inner layers: `Test2<Test1<Name<Object>>>`.
+ *
+ * ```
+ *
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = (Base: ClassType<{ name: string; num: number; }>) => class Test2 extends Base { test() { return this.name + this.num; } }
+ *
+ * // Bundle them - the bundle requires `{ name: string; }` from the base, as `num` is provided by mixinTest1.
+ * const mixinBundle = composeMixins(mixinTest1, mixinTest2);
+ *
+ * // Use it.
+ * const mixinName = (Base: ClassType) => class Name extends Base { name: string = ""; }
+ * class MyMix extends mixins(mixinName, mixinBundle) { }
+ * new MyMix().test(); // string
+ * isMixedWith(new MyMix(), mixinTest1); // true
+ *
+ * // Test failure.
+ * // .. mixinBundle is red-underlined: it requires the name member.
+ * class MyFail extends mixins(mixinBundle) { }
+ *
+ * ```
+ */
+export function composeMixins<Mixins extends Array<MixinEntry | FalsyMixin>>(...mixins: ValidateMixins<Mixins, ComposedBase<ResolveMixins<Mixins>>>): ComposedMixin<Mixins> {
+    return ((Base: ClassType) => {
+        // Apply like the chain being mixed (eg. with routed options or validation), or as is if used directly.
+        const apply = chainApplies[chainApplies.length - 1] || applyMixin;
+        return resolveMixins(mixins as Array<MixinEntry | FalsyMixin>, Base).reduce((ExtBase, mixin) => apply(ExtBase, mixin), Base);
+    }) as unknown as ComposedMixin<Mixins>;
+}
+
+/** Copy the mixins into an existing class - for classes that cannot be re-based, like third-party classes: `mixinsInto(TargetClass, mixinTest1, mixinTest2)`.
+ * - Instead of subclassing, the prototype and static members of each mixin class are copied onto the target class (as property descriptors). Returns the target class itself.
+ *      * The chain is resolved like in `mixinsWith`: the required mixins are included, and the mixins already in the target (or copied into it) are skipped.
+ *      * A copied member overwrites the member of the target class (like a later mixin in a chain). Non-configurable members of the target are kept as is.
+ *      * If the mixin creates more than one class layer (like a bundle by `composeMixins`), all the layers down to the target are copied - base first.
+ * - The outcome is typed like `MergeMixinsWith`, but keeps the constructor args of the target class. The chain is checked by `ValidateMixins`.
+ * - The limitations (compared to `mixinsWith`):
+ *      * The mixin constructors are never run, so the instance fields (and any constructor logic) are not there. Use methods and accessors instead.
+ *      * The static fields are evaluated once (on the generated class) and copied as values.
+ *      * Accessors are copied as accessors (not as their values), so `get` and `set` keep working. But the private members (`#private`) cannot work on the target instances.
+ *      * A `super` call in a copied member refers to the target's members as they were before copying the mixin (each mixin extends a snapshot of the target class).
+ *      * The composed methods, merged statics and init hooks (see `defineMixin` and `mixinInit`) are not wired up: the members are copied as they are.
+ * - The copied mixins are recorded, so `isMixedWith` works for the instances of the target class.
+ *
+ * ```
+ *
+ * // A class that cannot be re-based.
+ * class ThirdParty { greet(): string { return "hello"; } }
+ *
+ * // Create mixins.
+ * const mixinShout = (Base: ClassType<{ greet(): string; }>) => class Shout extends Base {
+ *     greet(): string { return super.greet().toUpperCase(); } // The original greet of ThirdParty.
+ *     get loud(): boolean { return true; }
+ * }
+ * const mixinNamed = (Base: ClassType) => class Named extends Base { static LABEL: string = "named"; }
+ *
+ * // Copy them.
+ * const MyThirdParty = mixinsInto(ThirdParty, mixinShout, mixinNamed);
+ * MyThirdParty === ThirdParty; // true
+ * new MyThirdParty().greet(); // "HELLO"
+ * new MyThirdParty().loud; // true
+ * MyThirdParty.LABEL; // "named"
+ * isMixedWith(new ThirdParty(), mixinShout); // true
+ *
+ * ```
+ */
+export function mixinsInto<Target extends AbstractClassType, Mixins extends Array<MixinEntry | FalsyMixin>>(Target: Target, ...mixins: ValidateMixins<Mixins, Target>): MergeMixinsWith<Target, Mixins, GetConstructorArgs<Target, any[]>> {
+    const TargetClass = Target as unknown as ClassType;
+    let copied = copiedMixins.get(TargetClass);
+    if (!copied)
+        copiedMixins.set(TargetClass, copied = new Set());
+    for (const mixin of resolveMixins(mixins as Array<MixinEntry | FalsyMixin>, TargetClass)) {
+        // Extend a snapshot, so that `super` refers to the members before copying.
+        const Snapshot = snapshotClass(TargetClass);
+        const Class = mixin(Snapshot);
+        // Copy all the layers down to the snapshot (eg. of a bundle by `composeMixins`), base first - so the higher layers win.
+        for (const Layer of getClassLayers(Class, Snapshot).reverse()) {
+            copyMembers(Layer.prototype, TargetClass.prototype, ["constructor"]);
+            copyMembers(Layer, TargetClass, ["prototype", "name", "length"]);
+            for (const inner of mixinClasses.get(Layer) || [])
+                copied.add(inner);
+        }
+        copied.add(mixin);
+    }
+    return Target as unknown as MergeMixinsWith<Target, Mixins, GetConstructorArgs<Target, any[]>>;
+}
+
+/** Compose a class by delegation (instead of an inheritance chain): `delegates({ logger: Logger, store: mixins(mixinStore) })`.
+ * - The class holds each part as a component instance (by its part name), and forwards the members of the components to them.
+ *      * A part is a class (constructed with `new`), or a trait object - which is mixed into a component class by `mixins`.
+ *      * To use a mixin function as a part, mix it into a class: `mixins(mixinStore)`. So the same building blocks can be used either as mixins or as delegated components. (A function is never guessed to be a mixin, as it cannot be told apart from a constructor.)
+ *      * The prototype members (methods and accessors) are forwarded on the prototype, and the instance fields per instance (as accessors).
+ *      * The constructor takes an optional object of the constructor args for each component: `new MyDelegates({ logger: ["app"] })`.
+ * - The settings define which members to forward and who owns the conflicting members (see `DelegatesSettings`).
+ *      * Use `forward` to select the members per part: `{ forward: { logger: ["log"] } }`. By default, all members are forwarded.
+ *      * A member forwarded by more than one part is a conflict, and must be resolved: `{ resolve: { clear: "store" } }`. The unresolved conflicts are a type error, and throw an error at runtime - for the prototype members when creating the class, and for the instance fields when constructing.
+ *      * Only the string-keyed members are forwarded - excluding `constructor` and the members named like the parts. (So the symbols, like `mixinInit` and `Symbol.toStringTag`, stay with the components.)
+ * - The outcome is typed as `DelegatesInstance`: the components and their forwarded members merged - like `MixinsInstance` for mixins.
+ *
+ * ```
+ *
+ * // Create parts - a class and a mixin.
+ * class Logger { log(msg: string): void { console.log(msg); } clear(): void { } }
+ * const mixinStore = (Base: ClassType) => class Store extends Base { items: string[] = []; clear(): void { this.items = []; } }
+ *
+ * // Compose.
+ * class MyApp extends delegates({ logger: Logger, store: mixins(mixinStore) }, { resolve: { clear: "store" } }) {
+ *     add(item: string): void {
+ *         this.items.push(item); // Forwarded to this.store.items.
+ *         this.log("added " + item); // Forwarded to this.logger.log.
+ *     }
+ * }
+ * const myApp = new MyApp();
+ * myApp.clear(); // Calls myApp.store.clear().
+ * myApp.logger.clear(); // The components can be used directly.
+ * isMixedWith(myApp.store, mixinStore); // true
+ *
+ * // Test failure.
+ * // .. The parts are red-underlined: the conflicting member "clear" is not resolved.
+ * const MyFail = delegates({ logger: Logger, store: mixins(mixinStore) });
+ *
+ * ```
+ */
+export function delegates<Parts extends Record<string, DelegatePart>, Settings extends DelegatesSettings<Parts> = {}>(parts: Parts, ...settings: DelegatesSettingsArgs<Parts, Settings>): DelegatesClass<Parts, Settings> {
+    return createDelegates(parts, (settings[0] || {}) as unknown as DelegatesSettings<any>) as unknown as DelegatesClass<Parts, Settings>;
+}
+
+
+// - Mixin branding - //
+
+/** Registry of classes created through `mixins` and `mixinsWith`: `{ [MixinClass]: Set<mixin> }`.
+ * - A class can have several mixins: a mixin bundled by `composeMixins` returns the class created by its last inner mixin.
+ * - Using a WeakMap keeps the generated classes garbage collectable.
+ */
+const mixinClasses: WeakMap<ClassType, Set<(Base: ClassType) => ClassType>> = new WeakMap();
+
+/** Apply a single mixin on the given base class and brand the outcome with the mixin. Used internally by `mixins` and `mixinsWith`.
+ * - If validate is true, throws an error if the mixin did not return a class extending the base class (see `validateMixinClass`).
+ */
+function applyMixin(Base: ClassType, mixin: (Base: ClassType) => ClassType, validate?: boolean): ClassType {
+    const Class = mixin(Base);
+    if (validate)
+        validateMixinClass(Base, Class, mixin);
+    // Only brand actually created classes - if the mixin returned the base class as is, it's not a mixin layer.
+    // .. Add to the existing brands, as the class might have been created by an inner mixin (of a bundle by `composeMixins`).
+    if (Class !== Base) {
+        const brands = mixinClasses.get(Class);
+        brands ? brands.add(mixin) : mixinClasses.set(Class, new Set([mixin]));
+    }
+    return Class;
+}
+
+/** Cache for the funcs created by `createMixins({ cache: true })`: `{ [Base]: { [mixin]: MixinClass } }`.
+ * - Using nested WeakMaps keeps both the base classes, the mixins and the generated classes garbage collectable.
+ */
+const cachedClasses: WeakMap<ClassType, WeakMap<(Base: ClassType) => ClassType, ClassType>> = new WeakMap();
+
+/** Apply a single mixin on the given base class using the cache, or `applyMixin` if not cached yet.
+ * - The cache is shared by all the funcs created with `cache: true`, so the cached class might have been created without validation. If validate is true, it's validated on cache hits, too.
+ */
+function applyMixinCached(Base: ClassType, mixin: (Base: ClassType) => ClassType, validate?: boolean): ClassType {
+    let classesByMixin = cachedClasses.get(Base);
+    if (!classesByMixin)
+        cachedClasses.set(Base, classesByMixin = new WeakMap());
+    let Class = classesByMixin.get(mixin);
+    if (!Class)
+        classesByMixin.set(mixin, Class = applyMixin(Base, mixin, validate));
+    else if (validate)
+        validateMixinClass(Base, Class, mixin);
+    return Class;
+}
+
+/** Collect the mixins applied (by `mixins` and `mixinsWith`) in the class chain of the given class - including the ones copied by `mixinsInto`. */
+function getAppliedMixins(Class: ClassType): Set<(Base: ClassType) => ClassType> {
+    const applied: Set<(Base: ClassType) => ClassType> = new Set();
+    for (let ExtBase = Class; ExtBase; ExtBase = Object.getPrototypeOf(ExtBase)) {
+        mixinClasses.get(ExtBase)?.forEach(mixin => applied.add(mixin));
+        copiedMixins.get(ExtBase)?.forEach(copied => applied.add(copied));
+    }
+    return applied;
+}
+
+/** Check whether the given object is an instance of a class that was mixed with the given mixin (using `mixins` or `mixinsWith`, or copied with `mixinsInto`).
+ * - Works as a typeguard: narrows the object to the mixin's instance type: `InstanceType<ReturnType<Mixin>>`.
+ * - Works for trait objects as well (see `MixinTrait`).
+ * - Only the classes produced through `mixins` and `mixinsWith` are branded. Calling a mixin manually (`mixinTest1(MyBase)`) does not brand the class.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base { name: string = ""; }
+ * 
+ * // Create a mixed class and an instance.
+ * class MyMix extends mixins(mixinTest1) { }
+ * const myMix: object = new MyMix();
+ * 
+ * // Test.
+ * isMixedWith(myMix, mixinTest2); // false
+ * if (isMixedWith(myMix, mixinTest1)) {
+ *     myMix.num; // number
+ * }
+ * 
+ * ```
+ */
+export function isMixedWith<Mixin extends MixinEntry>(obj: any, mixin: Mixin): obj is (TraitToMixin<Mixin> extends (Base: any) => infer Class ? InstanceTypeFrom<Class> : never) {
+    // Loop the class chain down from the constructor of the object.
+    if (obj == null)
+        return false;
+    const mixinFunc = getEntryMixin(mixin);
+    for (let Class = obj.constructor; Class; Class = Object.getPrototypeOf(Class)) {
+        if (mixinClasses.get(Class)?.has(mixinFunc) || copiedMixins.get(Class)?.has(mixinFunc))
+            return true;
+    }
+    return false;
+}
+
+/** Marks the mixin function to support `instanceof` checks by defining its `Symbol.hasInstance` to use `isMixedWith`.
+ * - Returns the same mixin function back. So you can use it when declaring the mixin: `const mixinTest1 = markMixin((Base: ClassType) => class Test1 extends Base { })`.
+ * - Note that generic mixins are supported, as the type of the mixin function is returned as is.
+ * 
+ * ```
+ * 
+ * // Create a marked mixin.
+ * const mixinTest1 = markMixin(<Info = {}>(Base: ClassType) => class Test1 extends Base { testMe(testInfo: Info): void {} });
+ * 
+ * // Use it.
+ * class MyMix extends mixins(mixinTest1) { }
+ * const myMix = new MyMix();
+ * myMix instanceof mixinTest1; // true
+ * ({}) instanceof mixinTest1; // false
+ * 
+ * ```
+ */
+export function markMixin<Mixin extends (Base: any) => AbstractClassType>(mixin: Mixin): Mixin {
+    // Note that Function.prototype[Symbol.hasInstance] is non-writable, so must define the property (instead of assigning it).
+    Object.defineProperty(mixin, Symbol.hasInstance, { value: (obj: any) => isMixedWith(obj, mixin), configurable: true });
+    return mixin;
+}
+
+
+// - Copied mixins - //
+
+/** Registry of the mixins copied into the classes by `mixinsInto`: `{ [TargetClass]: Set<mixin> }`. */
+const copiedMixins: WeakMap<ClassType, Set<(Base: ClassType) => ClassType>> = new WeakMap();
+
+/** Create a stand-in for the class to be used as the base class of a mixin by `mixinsInto`: it has copies of the own members of the class, and extends what the class extends.
+ * - So the `super` calls of the mixin class refer to the members of the class as they were - even after copying the mixin class members onto it.
+ * - The stand-in is never constructed: only its prototype and static members are used.
+ */
+function snapshotClass(Class: ClassType): ClassType {
+    function Snapshot() { }
+    Object.setPrototypeOf(Snapshot, Object.getPrototypeOf(Class));
+    Snapshot.prototype = Object.create(Object.getPrototypeOf(Class.prototype), Object.getOwnPropertyDescriptors(Class.prototype));
+    copyMembers(Class, Snapshot, ["prototype", "length"]);
+    return Snapshot as unknown as ClassType;
+}
+
+/** Collect the class layers from the class down to the base class (excluding it) - the class first. Stops at the root, if the class does not extend the base. */
+function getClassLayers(Class: ClassType, Base: ClassType): ClassType[] {
+    const layers: ClassType[] = [];
+    for (let Layer = Class; Layer && Layer !== Base && Layer !== Function.prototype; Layer = Object.getPrototypeOf(Layer))
+        layers.push(Layer);
+    return layers;
+}
+
+/** Copy the own members (as property descriptors) from the source to the target, skipping the given keys and the non-configurable members of the target. */
+function copyMembers(source: object, target: object, skipKeys: PropertyKey[]): void {
+    for (const key of Reflect.ownKeys(source)) {
+        if (skipKeys.includes(key) || Object.getOwnPropertyDescriptor(target, key)?.configurable === false)
+            continue;
+        Object.defineProperty(target, key, Object.getOwnPropertyDescriptor(source, key)!);
+    }
+}
+
+// - Delegation - //
+
+/** Get the component class for a part of `delegates`: the class as is, or the class mixed from the trait object by `mixins`. Throws a descriptive error for other values. */
+function getDelegateClass(key: string, part: DelegatePart): ClassType {
+    if (typeof part === "function")
+        return part;
+    if (!part || typeof part !== "object" || Array.isArray(part))
+        throw new Error("mixin-types: Invalid part " + key + " for `delegates`: expected a class or a trait object, but got " + describeValue(part) + ".");
+    return mixins(part) as unknown as ClassType;
+}
+
+/** Collect the members of the prototype chain (up to Object.prototype) as property descriptors - the closest one for each key, excluding `constructor`. */
+function getPrototypeMembers(proto: object | null): Map<PropertyKey, PropertyDescriptor> {
+    const members: Map<PropertyKey, PropertyDescriptor> = new Map();
+    for (; proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+        for (const key of Reflect.ownKeys(proto)) {
+            if (key !== "constructor" && !members.has(key))
+                members.set(key, Object.getOwnPropertyDescriptor(proto, key)!);
+        }
+    }
+    return members;
+}
+
+/** Get the owner of the member forwarded by the given parts: the only one, or the one set in `resolve`. Throws an error for an unresolved conflict. */
+function getDelegateOwner(member: PropertyKey, owners: string[], resolve: Record<string, PropertyKey>): string {
+    if (owners.length === 1)
+        return owners[0];
+    const owner = resolve[member as string];
+    if (typeof owner !== "string" || !owners.includes(owner))
+        throw new Error("mixin-types: Conflicting member " + String(member) + " forwarded by the parts: " + owners.join(", ") + ". Resolve it by the settings of `delegates`: `{ resolve: { " + String(member) + ": \"" + owners[0] + "\" } }`.");
+    return owner;
+}
+
+/** Create the descriptor forwarding the member to the component of the owner: a method for a method, and an accessor otherwise. */
+function getForwarder(owner: string, member: PropertyKey, descriptor: PropertyDescriptor | undefined, enumerable: boolean): PropertyDescriptor {
+    return descriptor && typeof descriptor.value === "function" ?
+        { value: function (this: Record<string, any>, ...args: any[]) { return this[owner][member](...args); }, writable: true, enumerable, configurable: true } :
+        { get(this: Record<string, any>) { return this[owner][member]; }, set(this: Record<string, any>, value: any) { this[owner][member] = value; }, enumerable, configurable: true };
+}
+
+/** Create the class for `delegates`: it constructs the components, and forwards the prototype members on its prototype and the instance fields per instance.
+ * - For a class without a prototype (like a bound class), the prototype members are only known from its instances - so they are forwarded per instance, too.
+ */
+function createDelegates(parts: Record<string, DelegatePart>, settings: DelegatesSettings<any>): ClassType {
+    const partKeys = Object.keys(parts);
+    const forward: Record<string, PropertyKey[] | undefined> = settings.forward || {};
+    const resolve: Record<string, PropertyKey> = settings.resolve || {};
+    const isForwarded = (key: string, member: PropertyKey) => typeof member === "string" && member !== "constructor" && !partKeys.includes(member) && (!forward[key] || forward[key]!.includes(member));
+    const addOwner = (owners: Map<PropertyKey, string[]>, key: string, member: PropertyKey) => {
+        const current = owners.get(member) || [];
+        if (isForwarded(key, member) && !current.includes(key))
+            owners.set(member, [...current, key]);
+    };
+    // Collect the forwarded prototype members by their owners.
+    const classes: Record<string, ClassType> = {};
+    const protoMembers: Record<string, Map<PropertyKey, PropertyDescriptor>> = {};
+    const protoOwners: Map<PropertyKey, string[]> = new Map();
+    for (const key of partKeys) {
+        classes[key] = getDelegateClass(key, parts[key]);
+        protoMembers[key] = getPrototypeMembers(classes[key].prototype || null);
+        for (const member of protoMembers[key].keys())
+            addOwner(protoOwners, key, member);
+    }
+    // Create the class.
+    const Delegates = class Delegates {
+        constructor(args: Record<string, any[] | undefined> = {}) {
+            // Construct the components.
+            const self = this as Record<string, any>;
+            for (const key of partKeys)
+                self[key] = new classes[key](...args[key] || []);
+            // Collect the instance fields - and the prototype members of the classes without a prototype.
+            const instanceOwners: Map<PropertyKey, string[]> = new Map();
+            const instanceMembers: Record<string, Map<PropertyKey, PropertyDescriptor>> = {};
+            for (const key of partKeys) {
+                for (const member of Reflect.ownKeys(self[key]))
+                    addOwner(instanceOwners, key, member);
+                if (!classes[key].prototype) {
+                    instanceMembers[key] = getPrototypeMembers(Object.getPrototypeOf(self[key]));
+                    for (const member of instanceMembers[key].keys())
+                        addOwner(instanceOwners, key, member);
+                }
+            }
+            // Forward them - unless forwarded on the prototype to the same owner.
+            for (const [member, owners] of instanceOwners) {
+                const protoOwner = protoOwners.get(member) || [];
+                const owner = getDelegateOwner(member, [...owners, ...protoOwner.filter(key => !owners.includes(key))], resolve);
+                if (owners.includes(owner) && (protoOwner.length ? getDelegateOwner(member, protoOwner, resolve) !== owner : true))
+                    Object.defineProperty(this, member, getForwarder(owner, member, instanceMembers[owner]?.get(member), true));
+            }
+        }
+    };
+    // Forward the prototype members.
+    for (const [member, owners] of protoOwners) {
+        const owner = getDelegateOwner(member, owners, resolve);
+        Object.defineProperty(Delegates.prototype, member, getForwarder(owner, member, protoMembers[owner].get(member), false));
+    }
+    return Delegates;
+}
+
+
+// - Mixin chain - //
+
+/** Registry of the chains mixed through `mixins` and `mixinsWith`: `{ [MixedClass]: MixinChain }`. */
+const mixinChains: WeakMap<ClassType, MixinChain> = new WeakMap();
+/** The funcs that the chains were mixed with (by the settings of `createMixins`), so that `withoutMixin` can re-mix them alike: `{ [MixinChain]: [apply, finish, getName] }`. */
+const mixinChainFuncs: WeakMap<MixinChain, [apply: (Base: ClassType, mixin: (Base: ClassType) => ClassType) => ClassType, finish: (Class: ClassType) => ClassType, getName: ((chain: MixinChain) => string) | null]> = new WeakMap();
+
+/** The apply funcs of the chains being mixed by `mixChain` - the last one is the current. So that a bundle by `composeMixins` applies its inner mixins the same way as the chain it's in. */
+const chainApplies: Array<(Base: ClassType, mixin: (Base: ClassType) => ClassType) => ClassType> = [];
+
+/** Apply the (resolved) mixins on the Base in order, finish the outcome (by default, using `composeMethods`), record the chain for `getMixinChain` and name the mixed class (by default, using `getChainName`). Used internally by `mixins` and `mixinsWith`. */
+function mixChain(
+    Base: ClassType,
+    mixins: Array<(Base: ClassType) => ClassType>,
+    apply: (Base: ClassType, mixin: (Base: ClassType) => ClassType) => ClassType = applyMixin,
+    finish: (Class: ClassType) => ClassType = composeMethods,
+    getName: ((chain: MixinChain) => string) | null = getChainName
+): ClassType {
+    const classes: ClassType[] = [];
+    chainApplies.push(apply);
+    let Mixed: ClassType;
+    try {
+        Mixed = mixins.reduce((ExtBase, mixin) => { const MixinClass = apply(ExtBase, mixin); classes.push(MixinClass); return MixinClass; }, Base);
+    }
+    finally {
+        chainApplies.pop();
+    }
+    const Class = finish(Mixed);
+    // Only record actually created classes - if all the mixins were skipped, the Class is the Base as is.
+    if (Class !== Base && !mixinChains.has(Class)) {
+        const chain = Object.freeze({ Class, Base, mixins: Object.freeze(mixins), classes: Object.freeze(classes) }) as MixinChain;
+        mixinChains.set(Class, chain);
+        mixinChainFuncs.set(chain, [apply, finish, getName]);
+        if (getName)
+            nameMixedClass(Class, getName(chain));
+    }
+    return Class;
+}
+
+/** Get the mixin chain of the given class or instance: the mixed class, its base class, and the mixins (as resolved) with the classes they generated - in order.
+ * - Works for the classes returned by `mixins` and `mixinsWith` (and the funcs created by `createMixins` and `mixinsBuilder`), and for the classes extending them.
+ * - Returns null if the class was not mixed. The returned object is frozen.
+ * - If the base class was mixed as well, use `getMixinChain(chain.Base)` to continue further.
+ * - The outcome is typed by `MixinChainOf`, so the mixins and classes are typed as a tuple.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base { name: string = ""; }
+ * 
+ * // Create a mixed class.
+ * class MyBase { }
+ * class MyMix extends mixinsWith(MyBase, mixinTest1, mixinTest2) { }
+ * 
+ * // Test.
+ * const chain = getMixinChain(MyMix)!; // Or from an instance: `getMixinChain(new MyMix())`.
+ * chain.Base === MyBase; // true
+ * chain.mixins; // [typeof mixinTest1, typeof mixinTest2] - on JS side: [mixinTest1, mixinTest2].
+ * chain.classes; // [typeof Test1, typeof Test2] - on JS side, the classes generated by mixinTest1 and mixinTest2.
+ * getMixinChain(MyBase); // null
+ * 
+ * ```
+ */
+export function getMixinChain<T extends object>(classOrInstance: T): MixinChainOf<T extends AbstractClassType ? T : ClassTypeFrom<T>> | null {
+    if (classOrInstance == null)
+        return null;
+    for (let Class = typeof classOrInstance === "function" ? classOrInstance : classOrInstance.constructor; Class; Class = Object.getPrototypeOf(Class)) {
+        const chain = mixinChains.get(Class as ClassType);
+        if (chain)
+            return chain as MixinChainOf<T extends AbstractClassType ? T : ClassTypeFrom<T>>;
+    }
+    return null;
+}
+
+/** Re-mix the chain of a mixed class without the given mixin: `withoutMixin(MyMix, mixinTest2)`.
+ * - The recorded chain (see `getMixinChain`) is mixed again on top of its base class without the mixin - and with the same settings (if created by `createMixins`).
+ *      * If the class extends the mixed class, the extending class is not rebuilt: the outcome is the re-mixed chain only.
+ *      * If the mixin is not in the chain, returns the mixed class as is. If the chain had only the mixin, returns the base class.
+ * - Throws an error if the class is not mixed, or if a remaining mixin requires the mixin (see `defineMixin`).
+ * - The outcome is typed by `OmitMixin` (or `OmitMixinWith`): the remaining chain is re-evaluated, and the mixin argument is red-underlined with the `MixinError` if it does not fit anymore.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinLogger = (Base: ClassType) => class Logger extends Base { log(...args: any[]): void { console.log(...args); } }
+ * const mixinTest2 = (Base: ReturnType<typeof mixinTest1>) => class Test2 extends Base { name: string = ""; }
+ * 
+ * // Create a mixed class, and a variant without the logger.
+ * const MyMix = mixins(mixinTest1, mixinLogger, mixinTest2);
+ * const MyMixLite = withoutMixin(MyMix, mixinLogger);
+ * new MyMixLite().num; // number
+ * new MyMixLite().log; // Not found.
+ * 
+ * // Test failure.
+ * // .. mixinTest1 is red-underlined: mixinTest2 requires it.
+ * withoutMixin(MyMix, mixinTest1);
+ * 
+ * ```
+ */
+export function withoutMixin<Class extends AbstractClassType, Mixin extends MixinEntry>(MixedClass: Class, mixin: Mixin & WithoutMixinCheck<Class, Mixin>): WithoutMixin<Class, Mixin> {
+    // Get the chain.
+    const chain = getMixinChain(MixedClass as AbstractClassType);
+    if (!chain)
+        throw new Error("mixin-types: Cannot omit a mixin from a class that is not mixed.");
+    // Not included.
+    const omitted = getEntryMixin(mixin);
+    const mixins = chain.mixins.filter(m => m !== omitted) as Array<(Base: ClassType) => ClassType>;
+    if (mixins.length === chain.mixins.length)
+        return chain.Class as unknown as WithoutMixin<Class, Mixin>;
+    // Check requirements.
+    for (const m of mixins)
+        if (getRequiredMixins(m).includes(omitted))
+            throw new Error("mixin-types: Cannot omit mixin " + (omitted.name || "(anonymous)") + ": it is required by " + (m.name || "(anonymous)") + ".");
+    // Re-mix.
+    const [apply, finish, getName] = mixinChainFuncs.get(chain as MixinChain) || [];
+    return mixChain(chain.Base as ClassType, mixins, apply, finish, getName) as unknown as WithoutMixin<Class, Mixin>;
+}
+
+
+// - Class names - //
+
+/** The original names of the classes renamed by `nameMixedClass`: `{ [MixedClass]: name }`. So that a renamed class (eg. a cached layer) keeps its original name in other chains. */
+const originalNames: WeakMap<ClassType, string> = new WeakMap();
+/** The `Symbol.toStringTag` getters defined by `nameMixedClass`, to tell them apart from custom ones. */
+const toStringTags: WeakSet<Function> = new WeakSet();
+
+/** Get the default name for the mixed class from its chain - nesting the class names from the last mixin to the base: `Test3<Test2<Test1<Object>>>`.
+ * - The name of each layer is the name of the class returned by the mixin, or if anonymous, the name of the mixin function.
+ * - The inner layers of a bundle (see `composeMixins`) are included as well: the branded classes between the classes of the chain.
+ */
+function getChainName(chain: MixinChain): string {
+    let name = chain.Base.name || "(anonymous)";
+    chain.classes.forEach((Class, i) => {
+        const inner = getClassLayers(Class as ClassType, (i ? chain.classes[i - 1] : chain.Base) as ClassType).slice(1).filter(Layer => mixinClasses.has(Layer)).reverse();
+        for (const Layer of inner)
+            name = getLayerName(Layer, [...mixinClasses.get(Layer)!][0]) + "<" + name + ">";
+        name = getLayerName(Class as ClassType, chain.mixins[i]) + "<" + name + ">";
+    });
+    return name;
+}
+
+/** Get the name of a class layer in a chain name: its original name, or if anonymous, the name of the mixin function. */
+function getLayerName(Class: ClassType, mixin: Function): string {
+    return originalNames.get(Class) ?? (Class.name || mixin.name || "(anonymous)");
+}
+
+/** Rename the mixed class, and add a `Symbol.toStringTag` getter returning the class name of the instance (unless the chain defines one) - for stack traces, devtools and `Object.prototype.toString`.
+ * - If the "name" of the class is not configurable (eg. defined as a static member by a mixin), keeps it as is.
+ */
+function nameMixedClass(Class: ClassType, name: string): void {
+    // Rename.
+    const descriptor = Object.getOwnPropertyDescriptor(Class, "name");
+    if (descriptor && !descriptor.configurable)
+        return;
+    if (!originalNames.has(Class))
+        originalNames.set(Class, Class.name);
+    Object.defineProperty(Class, "name", { value: name, configurable: true });
+    // Add tag - if not custom.
+    let tag: PropertyDescriptor | undefined;
+    for (let proto = Class.prototype; !tag && proto; proto = Object.getPrototypeOf(proto))
+        tag = Object.getOwnPropertyDescriptor(proto, Symbol.toStringTag);
+    if (tag && !(tag.get && toStringTags.has(tag.get)))
+        return;
+    // .. Read the name from the constructor of the instance, so that an extending class shows its own name - instead of the inherited chain name.
+    const getTag = function (this: object | undefined) { return (this?.constructor as Function | undefined)?.name || name; };
+    toStringTags.add(getTag);
+    Object.defineProperty(Class.prototype, Symbol.toStringTag, { get: getTag, configurable: true });
+}
+
+
+// - Runtime validation - //
+
+/** Describe the value for the validation errors: like "a number", "an array" or "null". */
+function describeValue(value: unknown): string {
+    const type = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+    return type === "null" || type === "undefined" ? type : (/^[aeiou]/.test(type) ? "an " : "a ") + type;
+}
+
+/** Check the entry of a mixin chain at the given position: it should be a mixin function, a trait object or falsy. Throws a descriptive error if not. Used with `createMixins({ validate: true })`. */
+function validateMixinEntry(entry: unknown, position: number): void {
+    // Falsy entries are skipped.
+    if (!entry)
+        return;
+    // Class - calling it without `new` would throw a cryptic error.
+    if (typeof entry === "function" && /^class[\s{]/.test(Function.prototype.toString.call(entry)))
+        throw new Error("mixin-types: Invalid mixin at position " + position + ": got the class " + (entry.name || "(anonymous)") + ", but expected a mixin function returning a class (like: `(Base) => class extends Base {}`).");
+    // Not a function nor a trait object.
+    if (typeof entry !== "function" && (typeof entry !== "object" || Array.isArray(entry)))
+        throw new Error("mixin-types: Invalid mixin at position " + position + ": expected a mixin function or a trait object, but got " + describeValue(entry) + ".");
+}
+
+/** Check that the mixin returned a class extending the Base: on the static side as well as on the prototype side. Throws a descriptive error if not. Used with `createMixins({ validate: true })`.
+ * - Returning the Base as is, is fine - the mixin is skipped as a layer.
+ */
+function validateMixinClass(Base: ClassType, Class: unknown, mixin: (Base: ClassType) => ClassType): void {
+    const name = mixin.name || "(anonymous)";
+    if (typeof Class !== "function" || !Class.prototype)
+        throw new Error("mixin-types: The mixin " + name + " did not return a class, but " + (typeof Class === "function" ? "a non-constructor function" : describeValue(Class)) + ".");
+    if (Class !== Base && !(Base.isPrototypeOf(Class) && Base.prototype.isPrototypeOf(Class.prototype)))
+        throw new Error("mixin-types: The class " + (Class.name || "(anonymous)") + " returned by the mixin " + name + " does not extend the base class given to the mixin. Is `extends Base` missing?");
+}
+
+
+// - Mixin traits - //
+
+/** The mixins created for the trait objects: `{ [trait]: mixin }`. So that the same trait is always the same mixin - for duplicates, caching and `isMixedWith`. */
+const traitMixins: WeakMap<MixinTrait, (Base: ClassType) => ClassType> = new WeakMap();
+
+/** Get the mixin for the entry in a mixin chain: the mixin function as is, or the mixin created for a trait object. */
+function getEntryMixin(entry: MixinEntry): (Base: ClassType) => ClassType {
+    return typeof entry === "function" ? entry as (Base: ClassType) => ClassType : getTraitMixin(entry);
+}
+
+/** Get the mixin for the trait object: it installs the methods, getters and statics on a generated class layer. The mixin is created once per trait. */
+function getTraitMixin(trait: MixinTrait): (Base: ClassType) => ClassType {
+    let mixin = traitMixins.get(trait);
+    if (!mixin) {
+        mixin = (Base: ClassType) => {
+            const Trait = class extends Base { };
+            for (const [key, method] of Object.entries(trait.methods || {}))
+                Object.defineProperty(Trait.prototype, key, { value: method, writable: true, configurable: true });
+            for (const [key, getter] of Object.entries(trait.getters || {}))
+                Object.defineProperty(Trait.prototype, key, { get: getter, configurable: true });
+            Object.defineProperties(Trait, Object.getOwnPropertyDescriptors(trait.statics || {}));
+            return Trait;
+        };
+        traitMixins.set(trait, mixin);
+    }
+    return mixin;
+}
+
+
+// - Mixin requirements - //
+
+/** Define a mixin with meta data: the mixins that it requires, and optionally the composed methods (see `MixinMeta` for all).
+ * - The required mixins are automatically included (before the mixin) by `mixins` and `mixinsWith`, unless already in the chain.
+ * - The whole chain is sorted topologically: if a required mixin is given later in the chain, it's moved before the mixin requiring it.
+ * - The `Base` argument is typed automatically by the required mixins, if not typed explicitly.
+ * - Circular requirements (possible with the lazy form: `requires: () => [mixinTest2]`) throw an error when mixing.
+ * - Returns the same mixin function back with the meta attached as `mixinMeta`.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base { name: string = ""; }
+ * const mixinTest3 = defineMixin({ requires: [mixinTest1, mixinTest2] }, Base => class Test3 extends Base {
+ *     test() { return this.name + this.num; } // `Base` is typed by the requirements.
+ * });
+ * 
+ * // Create mixed classes - the mixinTest1 and mixinTest2 are included automatically.
+ * class MyMix extends mixins(mixinTest3) { }
+ * class MyMix2 extends mixins(mixinTest3, mixinTest1) { } // Resolves to: [mixinTest1, mixinTest2, mixinTest3].
+ * new MyMix().num; // number
+ * 
+ * // Compose the "dispose" methods: the mixed class calls all of them in reverse order (without needing `super.dispose()`).
+ * const mixinTest4 = defineMixin({ compose: { dispose: "reverse" } }, (Base: ClassType) => class Test4 extends Base { dispose(): void { } });
+ * 
+ * // Merge the static "defaults" objects: the mixed class has them merged across the chain (without needing `{ ...Base.defaults }`).
+ * const mixinTest5 = defineMixin({ mergeStatics: ["defaults"] }, (Base: ClassType) => class Test5 extends Base { static defaults: { size: number; } = { size: 1 }; });
+ * 
+ * ```
+ */
+export function defineMixin<
+    Mixin extends (Base: RequiredBase<Requires>) => AbstractClassType,
+    Requires extends Array<(Base: any) => AbstractClassType> = [],
+    Compose extends MethodCompositions = {},
+    MergedStatics extends string = never
+>(meta: MixinMeta<[...Requires], Compose, MergedStatics>, mixin: Mixin): DefinedMixin<Mixin, Requires, Compose, MergedStatics> {
+    (mixin as unknown as DefinedMixin<Mixin, Requires, Compose, MergedStatics>).mixinMeta = meta;
+    return mixin as unknown as DefinedMixin<Mixin, Requires, Compose, MergedStatics>;
+}
+
+/** Read the required mixins of a mixin defined with `defineMixin`. */
+function getRequiredMixins(mixin: (Base: ClassType) => ClassType): Array<(Base: ClassType) => ClassType> {
+    const requires = (mixin as Partial<DefinedMixin>).mixinMeta?.requires;
+    return ((typeof requires === "function" ? requires() : requires) || []) as Array<(Base: ClassType) => ClassType>;
+}
+
+/** Resolve the required mixins into the chain in topological order and skip duplicates. Used internally by `mixins` and `mixinsWith`.
+ * - The explicitly given mixins keep their order, but each required mixin is included right before the first mixin requiring it, unless already included.
+ * - If a required mixin was pulled in earlier, skips it at its original place in the chain.
+ * - Skips the mixins already in the chain, including the ones applied in the Base class. If strictDuplicates is true, throws an error instead.
+ * - The trait objects are converted to mixins (see `getTraitMixin`), and the falsy entries are skipped.
+ * - Throws an error on circular requirements. If validate is true, throws an error on invalid entries as well (see `validateMixinEntry`).
+ */
+function resolveMixins(entries: Array<MixinEntry | FalsyMixin>, Base: ClassType, strictDuplicates?: boolean, validate?: boolean): Array<(Base: ClassType) => ClassType> {
+    // Validate.
+    if (validate)
+        entries.forEach(validateMixinEntry);
+    // Prepare - skip the falsy entries.
+    const mixins = entries.filter(entry => entry).map(entry => getEntryMixin(entry as MixinEntry));
+    const resolved: Array<(Base: ClassType) => ClassType> = [];
+    const applied = getAppliedMixins(Base);
+    const pulled: Set<(Base: ClassType) => ClassType> = new Set();
+    const path: Array<(Base: ClassType) => ClassType> = [];
+    // Helper to include the requirements recursively.
+    const pullRequired = (mixin: (Base: ClassType) => ClassType): void => {
+        path.push(mixin);
+        for (const required of getRequiredMixins(mixin)) {
+            // Already included.
+            if (resolved.includes(required) || applied.has(required))
+                continue;
+            // Circular.
+            if (path.includes(required))
+                throw new Error("mixin-types: Circular mixin requirements: " + [...path.slice(path.indexOf(required)), required].map(m => m.name || "(anonymous)").join(" -> ") + ".");
+            // Include.
+            pullRequired(required);
+            resolved.push(required);
+            pulled.add(required);
+        }
+        path.pop();
+    };
+    // Loop the given mixins.
+    for (const mixin of mixins) {
+        // Was already moved earlier as a requirement.
+        if (pulled.has(mixin))
+            continue;
+        // Duplicate.
+        if (resolved.includes(mixin) || applied.has(mixin)) {
+            if (strictDuplicates)
+                throw new Error("mixin-types: Duplicate mixin: " + (mixin.name || "(anonymous)") + " is already included in the chain.");
+            continue;
+        }
+        // Include.
+        pullRequired(mixin);
+        resolved.push(mixin);
+    }
+    return resolved;
+}
+
+
 // // - Unused - //
 //
 // /** Extends the base class with methods from other classes - last constructor gets applied.
@@ -287,6 +1245,297 @@ export function mixinsWith<Base extends ClassType, Mixins extends Array<(Base: C
 // }
 
 
+// - Mixin conflicts - //
+
+/** Warn about the methods of the mixin class shadowing the methods of the base class (and earlier mixins) without calling `super`. Returns the Class.
+ * - The composed methods (see `compose` in `MixinMeta`) declared by the mixin or earlier in the chain are skipped, as their implementations are wired together by `compose`.
+ */
+function warnShadowedMethods(Base: ClassType, Class: ClassType, mixin: (Base: ClassType) => ClassType): ClassType {
+    // Not a new class.
+    if (Class === Base)
+        return Class;
+    // Collect the composed methods.
+    const composed: Set<string> = new Set();
+    for (const applied of getAppliedMixins(Class))
+        Object.keys((applied as Partial<DefinedMixin>).mixinMeta?.compose || {}).forEach(name => composed.add(name));
+    for (const key of Reflect.ownKeys(Class.prototype)) {
+        // Skip non-methods and composed methods.
+        const method = Object.getOwnPropertyDescriptor(Class.prototype, key)?.value;
+        if (key === "constructor" || typeof method !== "function" || typeof key === "string" && composed.has(key))
+            continue;
+        // Find the shadowed method - excluding Object.prototype.
+        let shadowed: any;
+        for (let proto = Base.prototype; proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+            const descriptor = Object.getOwnPropertyDescriptor(proto, key);
+            if (descriptor) {
+                shadowed = descriptor.value;
+                break;
+            }
+        }
+        if (typeof shadowed !== "function")
+            continue;
+        // Check whether calls super - for symbols, only can check for `super[`.
+        const source = Function.prototype.toString.call(method);
+        const callsSuper = /super\s*\[/.test(source) || typeof key === "string" && new RegExp("super\\s*\\.\\s*" + key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") + "(?![\\w$])").test(source);
+        if (!callsSuper)
+            console.warn("mixin-types: The method \"" + String(key) + "\" of mixin " + (mixin.name || "(anonymous)") + " shadows the method of an earlier mixin (or the base class) without calling super.");
+    }
+    return Class;
+}
+
+
+// - Mixin options - //
+
+/** Registry of mixin classes applied with routed options: `{ [MixinClass]: mixin }`. */
+const routedClasses: WeakMap<ClassType, (Base: ClassType) => ClassType> = new WeakMap();
+/** Cache for the router classes and entry classes used with `createMixins({ cache: true, mixinOptions: true })`. */
+const cachedRoutedClasses: WeakMap<ClassType, WeakMap<(Base: ClassType) => ClassType, ClassType>> = new WeakMap();
+const cachedEntryClasses: WeakMap<ClassType, ClassType> = new WeakMap();
+/** The args given to the mixed classes under construction: `[options, baseArgs]`. The last one is the one being constructed. */
+const routedArgs: Array<[options: Record<string, any>, baseArgs: any[]]> = [];
+
+/** Get the args for constructing the given class in a routed chain: its mixin's slice of the options, or the base args if not a routed mixin class. */
+function getRoutedArgs(Class: ClassType): any[] {
+    const [options, baseArgs] = routedArgs[routedArgs.length - 1];
+    const mixin = routedClasses.get(Class);
+    if (!mixin)
+        return baseArgs;
+    const keys = (mixin as Partial<DefinedMixin>).mixinMeta?.optionKeys;
+    if (!keys)
+        return [options];
+    const slice: Record<string, any> = {};
+    for (const key of keys)
+        if (key in options)
+            slice[key] = options[key];
+    return [slice];
+}
+
+/** Apply a single mixin on top of a router class, which constructs the base with its routed args - ignoring what the mixin passes to `super(...)`. */
+function applyMixinRouted(Base: ClassType, mixin: (Base: ClassType) => ClassType, validate?: boolean): ClassType {
+    const Router = class extends Base { constructor(..._args: any[]) { super(...getRoutedArgs(Base)); } };
+    const Class = applyMixin(Router, mixin, validate);
+    // Keep the routing of the inner mixins of a bundle (see `composeMixins`): the last one gets its own options.
+    if (Class !== Router && !routedClasses.has(Class))
+        routedClasses.set(Class, mixin);
+    return Class;
+}
+
+/** Cached version of `applyMixinRouted`. Like in `applyMixinCached`, validates on cache hits, too. */
+function applyMixinRoutedCached(Base: ClassType, mixin: (Base: ClassType) => ClassType, validate?: boolean): ClassType {
+    let classesByMixin = cachedRoutedClasses.get(Base);
+    if (!classesByMixin)
+        cachedRoutedClasses.set(Base, classesByMixin = new WeakMap());
+    let Class = classesByMixin.get(mixin);
+    if (!Class)
+        classesByMixin.set(mixin, Class = applyMixinRouted(Base, mixin, validate));
+    else if (validate)
+        validateMixinClass(Base, Class, mixin);
+    return Class;
+}
+
+/** Create the entry class for a routed chain: it takes in `(options, ...baseArgs)` and keeps them available for the routers during the construction. */
+function getOptionsEntry(Base: ClassType): ClassType {
+    return class extends Base {
+        constructor(options: Record<string, any> = {}, ...baseArgs: any[]) {
+            routedArgs.push([options, baseArgs]);
+            try {
+                super(...getRoutedArgs(Base));
+            }
+            finally {
+                routedArgs.pop();
+            }
+        }
+    };
+}
+
+/** Cached version of `getOptionsEntry`. */
+function getOptionsEntryCached(Base: ClassType): ClassType {
+    let Entry = cachedEntryClasses.get(Base);
+    if (!Entry)
+        cachedEntryClasses.set(Base, Entry = getOptionsEntry(Base));
+    return Entry;
+}
+
+
+// - Method composition - //
+
+/** Registry of the methods created by `composeMethods`, so that they are not composed again in extended chains. */
+const composedMethods: WeakSet<Function> = new WeakSet();
+/** Cache for the composing classes used with `createMixins({ cache: true })`. */
+const cachedComposedClasses: WeakMap<ClassType, ClassType> = new WeakMap();
+
+/** Create a class on top of the given class with the composed methods wired together - as defined by `compose` in the meta of the mixins in the chain.
+ * - The implementations are collected from all the layers in the chain (base first), and called in order, in reverse order or to collect their results.
+ * - Likewise, the static objects named by `mergeStatics` in the meta are merged from all the layers in the chain (base first).
+ * - If any layer in the chain defines an init hook (see `mixinInit`), the class runs them at the end of its constructor - if it's the outermost class.
+ * - If none of the mixins in the chain define composed methods, merged statics or init hooks, returns the class as is.
+ */
+function composeMethods(Class: ClassType): ClassType {
+    // Collect the compositions - the later mixins override the earlier.
+    const compositions: Record<string, MethodComposition> = {};
+    const mergedStatics: Set<string> = new Set();
+    for (const mixin of [...getAppliedMixins(Class)].reverse()) {
+        const meta = (mixin as Partial<DefinedMixin>).mixinMeta;
+        Object.assign(compositions, meta?.compose);
+        meta?.mergeStatics?.forEach(key => mergedStatics.add(key));
+    }
+    const names = Object.keys(compositions);
+    const initHooks = getInitHooks(Class.prototype).length > 0;
+    if (!names.length && !mergedStatics.size && !initHooks)
+        return Class;
+    // Create the composing class - it runs the init hooks, if is the outermost class.
+    const Composed = class extends Class {
+        constructor(...args: any[]) {
+            super(...args);
+            if (initHooks && new.target === Composed)
+                initMixins(this);
+        }
+    };
+    // Merge the static objects, base first.
+    const layers: ClassType[] = [];
+    for (let ExtBase = Class; mergedStatics.size && ExtBase && ExtBase !== Function.prototype; ExtBase = Object.getPrototypeOf(ExtBase))
+        layers.unshift(ExtBase);
+    for (const key of mergedStatics) {
+        const merged: Record<PropertyKey, any> = {};
+        for (const Layer of layers) {
+            const value = Object.getOwnPropertyDescriptor(Layer, key)?.value;
+            if (value && typeof value === "object")
+                Object.assign(merged, value);
+        }
+        Object.defineProperty(Composed, key, { value: merged, writable: true, configurable: true, enumerable: true });
+    }
+    for (const name of names) {
+        // Collect the implementations, base first.
+        const methods: Array<(...args: any[]) => any> = [];
+        for (let proto = Class.prototype; proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+            const method = Object.getOwnPropertyDescriptor(proto, name)?.value;
+            if (typeof method === "function" && !composedMethods.has(method))
+                methods.unshift(method);
+        }
+        // Compose.
+        const strategy = compositions[name];
+        if (strategy === "reverse")
+            methods.reverse();
+        const composed = strategy === "collect" ?
+            function (this: any, ...args: any[]) { return methods.map(method => method.apply(this, args)); } :
+            function (this: any, ...args: any[]) { for (const method of methods) method.apply(this, args); };
+        composedMethods.add(composed);
+        Object.defineProperty(Composed.prototype, name, { value: composed, writable: true, configurable: true });
+    }
+    return Composed;
+}
+
+/** Cached version of `composeMethods`. */
+function composeMethodsCached(Class: ClassType): ClassType {
+    let Composed = cachedComposedClasses.get(Class);
+    if (!Composed)
+        cachedComposedClasses.set(Class, Composed = composeMethods(Class));
+    return Composed;
+}
+
+
+// - Init hooks - //
+
+/** The key for the init hook method of a mixin: `[mixinInit](): void { }`. The hooks are run by `initMixins` - once per instance, base first.
+ * - The class returned by `mixins` and `mixinsWith` runs them automatically only when constructed directly: `new MyMix()`.
+ * - For a class extending the mixed class, the hooks are NOT run automatically - and nothing reports it. Wrap the class with `withInitHooks`, or call `initMixins(this)` at the end of its constructor.
+ */
+export const mixinInit = Symbol("mixinInit");
+
+/** The instances whose init hooks have already been run. */
+const initializedInstances: WeakSet<object> = new WeakSet();
+
+/** Collect the init hooks defined in the prototype chain, base first. */
+function getInitHooks(proto: object | null): Array<() => void> {
+    const hooks: Array<() => void> = [];
+    for (; proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+        const hook = Object.getOwnPropertyDescriptor(proto, mixinInit)?.value;
+        if (typeof hook === "function")
+            hooks.unshift(hook);
+    }
+    return hooks;
+}
+
+/** Run the init hooks (see `mixinInit`) of the instance: calls each layer's hook in chain order (base first) - once per instance. Returns the instance.
+ * - The class returned by `mixins` and `mixinsWith` calls this automatically at the end of its constructor, if it's the outermost class: `new MyMix()` (or when decorated by `withMixins`).
+ * - A class extending the mixed class should call `initMixins(this)` at the end of its constructor - after its own members have been initialized. Otherwise the hooks are silently skipped.
+ *      * Or wrap the extending class with `withInitHooks` (as a decorator or a function) to run them automatically.
+ *      * The extending class can define its own hook, too - it's called last.
+ * - The hooks should not call `super[mixinInit]()`: each layer's hook is called by `initMixins`.
+ * - On the TS side, a hook can type its `this` to read the members of the fully mixed instance - `ValidateMixins` checks that the chain provides them.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base {
+ *     size: number = 0;
+ *     // The hook sees the members of the mixed instance - here, the num provided by mixinTest1.
+ *     [mixinInit](this: Test2 & { num: number; }): void { this.size = this.num * 2; }
+ * }
+ * 
+ * // Create a mixed class - the extending class sets the num before the hooks are run.
+ * class MyMix extends mixins(mixinTest1, mixinTest2) {
+ *     constructor() {
+ *         super();
+ *         this.num = 10;
+ *         initMixins(this);
+ *     }
+ * }
+ * new MyMix().size; // 20
+ * new (mixins(mixinTest1, mixinTest2))().size; // 10 - the hooks are run automatically for the outermost class.
+ * 
+ * ```
+ */
+export function initMixins<T extends object>(instance: T): T {
+    if (initializedInstances.has(instance))
+        return instance;
+    initializedInstances.add(instance);
+    for (const hook of getInitHooks(Object.getPrototypeOf(instance)))
+        hook.call(instance);
+    return instance;
+}
+
+/** Wrap the class so that the init hooks (see `mixinInit`) are run automatically after its constructor has finished - so an extending class does not need to call `initMixins(this)`.
+ * - Can be used as a class decorator: `@withInitHooks class MyMix extends mixins(...) { }` - with the standard (TC39) decorators of TS 5+, or with the legacy `experimentalDecorators`.
+ *      * Or as a function: `const MyMix = withInitHooks(class MyMix extends mixins(...) { })`.
+ * - On the JS side, returns a `Proxy` of the class, whose `construct` trap calls `initMixins` after `Reflect.construct` - if the wrapped class is the outermost class.
+ *      * So a class extending the wrapped class should be wrapped, too (or call `initMixins(this)` itself). Wrapping more than one layer is fine: the hooks are run once per instance, after the outermost constructor.
+ * - On the TS side, returns the class type as is.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base {
+ *     size: number = 0;
+ *     [mixinInit](this: Test2 & { num: number; }): void { this.size = this.num * 2; }
+ * }
+ * 
+ * // Create a wrapped class - the hooks are run after its fields have been initialized.
+ * @withInitHooks
+ * class MyMix extends mixins(mixinTest1, mixinTest2) { num = 10; }
+ * new MyMix().size; // 20
+ * 
+ * // Without the wrapper (and without calling initMixins), the hooks would not be run.
+ * class MyPlain extends mixins(mixinTest1, mixinTest2) { num = 10; }
+ * new MyPlain().size; // 0
+ * 
+ * ```
+ */
+export function withInitHooks<Class extends AbstractClassType>(Class: Class, context?: { kind: "class"; name: string | undefined; }): Class {
+    if (context && context.kind !== "class")
+        throw new Error("mixin-types: The withInitHooks decorator can only be used on classes, not on a " + (context as { kind: string; }).kind + ".");
+    const Wrapped: Class = new Proxy(Class, {
+        construct(Target, args, NewTarget) {
+            const instance = Reflect.construct(Target, args, NewTarget);
+            return NewTarget === Wrapped ? initMixins(instance) : instance;
+        }
+    });
+    return Wrapped;
+}
+
+
 // - Typing helpers - //
 
 // Array tools.
@@ -296,6 +1545,7 @@ export type IncludesValue<Arr extends any[], Val extends any> = { [Key in keyof
 // Iterators.
 /** Iterate down from 20 to 0. If iterates at 0 returns never. If higher than 20, returns 0. (With negative or other invalid returns all numeric options type.)
  * - When used, should not input negative, but go down from, say, `Arr["length"]`, and stop after 0.
+ * - Note. The mixin helpers no longer use the iterators (they iterate the tuples directly), but the types are kept for general use.
  */
 export type IterateBackwards = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, ...0[]];
 /** Iterate up from 0 to 20. If iterates at 20 or higher returns never. (With negative or other invalid returns all numeric options type.)
@@ -308,12 +1558,16 @@ export type IterateForwards = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15
 export type InstanceTypeFrom<Anything, Fallback = {}> = Anything extends abstract new (...args: any[]) => infer Instance ? Instance : Fallback;
 /** Get the type for class from class instance - the opposite of `InstanceType`. Optionally define constructor args. */
 export type ClassType<T = {}, Args extends any[] = any[]> = new (...args: Args) => T;
+/** Like ClassType but for abstract classes. Note that concrete classes fit it as well: `ClassType extends AbstractClassType`. */
+export type AbstractClassType<T = {}, Args extends any[] = any[]> = abstract new (...args: Args) => T;
+/** Check whether the class type is abstract: has an abstract construct signature, but no concrete one. */
+export type IsAbstractClass<Class> = Class extends new (...args: any[]) => any ? false : Class extends abstract new (...args: any[]) => any ? true : false;
 /** Tries to infer class type from "constructor" definition. */
-export type ClassTypeFrom<T, Fallback = {}> = T extends Object ? T["constructor"] extends new (...args: any[]) => any ? T["constructor"] : Fallback : Fallback;
-/** Get the type for class constructor arguments with Fallback (defaults to `never`). */
-export type GetConstructorArgs<T, Fallback = never> = T extends new (...args: infer P) => any ? P : Fallback;
-/** Get the type for class constructor return with Fallback (defaults to `never`). */
-export type GetConstructorReturn<T, Fallback = never> = T extends new (...args: any[]) => infer R ? R : Fallback;
+export type ClassTypeFrom<T, Fallback = {}> = T extends Object ? T["constructor"] extends abstract new (...args: any[]) => any ? T["constructor"] : Fallback : Fallback;
+/** Get the type for class constructor arguments with Fallback (defaults to `never`). Works for abstract classes as well. */
+export type GetConstructorArgs<T, Fallback = never> = T extends abstract new (...args: infer P) => any ? P : Fallback;
+/** Get the type for class constructor return with Fallback (defaults to `never`). Works for abstract classes as well. */
+export type GetConstructorReturn<T, Fallback = never> = T extends abstract new (...args: any[]) => infer R ? R : Fallback;
 
 // Re-type class.
 /** Simply creates a new type object by picking all properties. Useful for typing static side when extending mixins, as Pick drops the `new () => Instance` part automatically - see more in `ReClass` comments. */
@@ -408,17 +1662,21 @@ export type ReClassArgs<Class, ConstructorArgs extends any[], Instance = Instanc
  * @param Instance Type of the merged class instance. (Should extend Object, not required for fluency.)
  * @param ConstructorArgs Constructor arguments of the new class. Defaults to any[].
  * @param LinkConstructor Defaults to true. If true, adds recursive static side ref to the instance side: `{ ["constructor"]: AsClass<Class, Instance, ConstructorArgs>; }`.
+ * @param Abstract Defaults to whether Class is abstract (see `IsAbstractClass`). If true, uses an abstract construct signature: the class cannot be instantiated, but can be extended.
  * @returns The returned type is a new class type, with recursive class <-> instance support.
+ *      * The protected and private members of Instance are kept as they are (the instance side is not mapped).
+ *      * However, the static side is mapped by `Omit<Class, "new">`, which drops protected and private static members.
+ *          - They cannot be kept: intersecting the original construct signatures (instead of omitting them) would make the class unusable as a base class (TS2510).
  */
-export type AsClass<Class, Instance, ConstructorArgs extends any[] = any[], LinkConstructor extends boolean = true> = Omit<Class, "new"> & {
+export type AsClass<Class, Instance, ConstructorArgs extends any[] = any[], LinkConstructor extends boolean = true, Abstract extends boolean = IsAbstractClass<Class>> = Omit<Class, "new"> & (
     // Note. We can't use Omit<Instance, "constructor"> below as it would turn class methods to property functions.
     // .. However, the same thing does not seem to bother TypeScript on the static side, so we _can_ use Omit<class, "new"> above.
     // .. Note also that the ["constructor"] part is optional: it provides a typed link to the static side and back recursively.
-    new (...args: ConstructorArgs): LinkConstructor extends false ?
-        Instance : // No link.
-        Instance & { ["constructor"]: AsClass<Class, Instance, ConstructorArgs>; // Linked.
-    };
-};
+    // .. The abstract construct signature keeps the class abstract: it cannot be instantiated, but can be extended.
+    Abstract extends true ?
+        abstract new (...args: ConstructorArgs) => LinkConstructor extends false ? Instance : Instance & { ["constructor"]: AsClass<Class, Instance, ConstructorArgs, true, true>; } :
+        new (...args: ConstructorArgs) => LinkConstructor extends false ? Instance : Instance & { ["constructor"]: AsClass<Class, Instance, ConstructorArgs, true, false>; }
+);
 /** This type helps to redefine a class instance.
  * - The core usage is for cases merging what an interface extends.
  * - Typically, the interface matches a class (that extends `as any as ClassType`).
@@ -479,6 +1737,8 @@ export type AsInstanceArgs<Instance extends Object, ConstructorArgs extends any[
  *          - On the other hand it's not recommended for mixins to use "constructor" for other reasons.
  *      * Note also that the mixin chain should always define the constructor args for the resulting class explicitly.
  * @returns The returned type is a mixin creator, essentially: `(Base: TBase) => TBase & ClassType<MixinInstance>`.
+ *      * The outcome is abstract, if either TBase or MixinClass is abstract.
+ *      * The last signature (without TBase) is for reading the mixin by `Parameters` and `ReturnType`: so it can be used with `mixins`, `mixinsWith` and `MergeMixins`.
  * 
  * ```
  * 
@@ -549,6 +1809,27 @@ export type AsInstanceArgs<Instance extends Object, ConstructorArgs extends any[
  * MyMultiMix.SOME_STATIC = true; // Requires `boolean`.
  * MyMultiMix.SOME_MEMBER = 0; // Requires `number`.
  * 
+ * 
+ * // - Example (protected members) - //
+ * 
+ * // With `declaration: true`, a class expression with protected or private members cannot be exported (TS4094).
+ * // .. Instead, declare the class (type only) and re-type the mixin with it: the declarations refer to it by name.
+ * // .. The cast needs `unknown`, as protected members are only compatible with the class that declared them.
+ * export declare class Test3 {
+ *     protected counter: number;
+ *     increase(): number;
+ * }
+ * export const mixinTest3 = ((Base: ClassType) => class Test3 extends Base {
+ *     protected counter: number = 0;
+ *     increase(): number { return ++this.counter; }
+ * }) as unknown as AsMixin<Test3>;
+ * 
+ * // The protected members stay protected through `mixins`, `mixinsWith` and `MergeMixins`.
+ * export class MyCounter extends mixins(mixinTest3) {
+ *     reset(): void { this.counter = 0; } // Okay.
+ * }
+ * new MyCounter().counter; // Error: Property 'counter' is protected.
+ * 
  * ```
  * 
  */
@@ -557,7 +1838,13 @@ export type AsMixin<
     MixinClass = ClassTypeFrom<MixinInstance>,
     ConstructorArgs extends any[] = GetConstructorArgs<MixinClass, any[]>
 > =
-    <TBase extends ClassType>(Base: TBase) => Omit<TBase & MixinClass, "new"> & { new (...args: ConstructorArgs): GetConstructorReturn<TBase> & MixinInstance; };
+    (<TBase extends AbstractClassType>(Base: TBase) => Omit<TBase & MixinClass, "new"> & (
+        IsAbstractClass<TBase> extends true ? abstract new (...args: ConstructorArgs) => GetConstructorReturn<TBase> & MixinInstance :
+        IsAbstractClass<MixinClass> extends true ? abstract new (...args: ConstructorArgs) => GetConstructorReturn<TBase> & MixinInstance :
+        new (...args: ConstructorArgs) => GetConstructorReturn<TBase> & MixinInstance
+    )) & ((Base: ClassType) => Omit<MixinClass, "new"> & (
+        IsAbstractClass<MixinClass> extends true ? abstract new (...args: ConstructorArgs) => MixinInstance : new (...args: ConstructorArgs) => MixinInstance
+    ));
 /** Alias for AsMixin that requires ConstructorArgs as the 2nd arg, so that the 3rd arg for MixinClass type can be inferred automated. */
 export type AsMixinArgs<MixinInstance extends Object, ConstructorArgs extends any[], MixinClass = ClassTypeFrom<MixinInstance>> = AsMixin<MixinInstance, MixinClass, ConstructorArgs>;
 /** Alternative to AsMixin that resembles ReClass, thus ReMixin.
@@ -574,6 +1861,8 @@ export type AsMixinArgs<MixinInstance extends Object, ConstructorArgs extends an
  *          - On the other hand it's not recommended for mixins to use "constructor" for other reasons.
  *      * Note also that the mixin chain should always define the constructor args for the resulting class explicitly.
  * @returns The returned type is a mixin creator, essentially: `(Base: TBase) => TBase & ClassType<MixinInstance>`.
+ *      * The outcome is abstract, if either TBase or MixinClass is abstract.
+ *      * The last signature (without TBase) is for reading the mixin by `Parameters` and `ReturnType`: so it can be used with `mixins`, `mixinsWith` and `MergeMixins`.
 
  * ```
  * 
@@ -598,15 +1887,154 @@ export type ReMixin<
     MixinInstance = InstanceTypeFrom<MixinClass>,
     ConstructorArgs extends any[] = GetConstructorArgs<MixinClass, any[]>
 > =
-    <TBase extends ClassType>(Base: TBase) => Omit<TBase & MixinClass, "new"> & { new (...args: ConstructorArgs): GetConstructorReturn<TBase> & MixinInstance; };
+    (<TBase extends AbstractClassType>(Base: TBase) => Omit<TBase & MixinClass, "new"> & (
+        IsAbstractClass<TBase> extends true ? abstract new (...args: ConstructorArgs) => GetConstructorReturn<TBase> & MixinInstance :
+        IsAbstractClass<MixinClass> extends true ? abstract new (...args: ConstructorArgs) => GetConstructorReturn<TBase> & MixinInstance :
+        new (...args: ConstructorArgs) => GetConstructorReturn<TBase> & MixinInstance
+    )) & ((Base: ClassType) => Omit<MixinClass, "new"> & (
+        IsAbstractClass<MixinClass> extends true ? abstract new (...args: ConstructorArgs) => MixinInstance : new (...args: ConstructorArgs) => MixinInstance
+    ));
 /** Alias for ReMixin that requires ConstructorArgs as the 2nd arg, so that the 3rd arg for MixinInstance type can be inferred automated. */
 export type ReMixinArgs<MixinClass, ConstructorArgs extends any[], MixinInstance = InstanceTypeFrom<MixinClass>> = ReMixin<MixinClass, MixinInstance, ConstructorArgs>;
 
+// Mixin requirements.
+/** The meta data for a mixin defined with `defineMixin`. */
+export interface MixinMeta<Requires extends Array<(Base: any) => AbstractClassType> = Array<(Base: any) => AbstractClassType>, Compose extends MethodCompositions = MethodCompositions, MergedStatics extends string = string> {
+    /** The mixins required by the mixin. They are included automatically (before the mixin) by `mixins` and `mixinsWith`, unless already in the chain.
+     * - Can also be a function returning the mixins, to refer to mixins defined later on.
+     */
+    requires?: Requires | (() => Requires);
+    /** The keys of the options that the mixin uses. Only used with `createMixins({ mixinOptions: true })`: the mixin gets only the slice of the options with these keys.
+     * - If not defined, the mixin gets the whole options object.
+     */
+    optionKeys?: string[];
+    /** The methods to compose, for example: `{ init: "chain", dispose: "reverse" }`. The mixed class wires together the implementations of all the layers in the chain.
+     * - "chain": Calls all the implementations in chain order (base first). Returns void.
+     * - "reverse": Calls all the implementations in reverse chain order (last mixin first). Returns void.
+     * - "collect": Calls all the implementations in chain order and returns their results as an array.
+     * - Note that the composed implementations should not call `super` for the method, as the composing calls each of them.
+     * - If several mixins in the chain define the same method, the last one defines the strategy.
+     */
+    compose?: Compose;
+    /** The names of the static objects to merge across the chain, for example: `["defaults"]`. The mixed class gets the objects merged (base first): the later properties override the earlier.
+     * - The merging is shallow and only done for the final mixed class. So the mixins see the static objects of their base as is (when defining the class).
+     * - The type of the static object in the mixed class is merged accordingly - otherwise the static members of the later mixins override the earlier.
+     * - Note that the static objects of a mixin given to `defineMixin` should be typed explicitly: `static defaults: MyDefaults = { ... }`. Otherwise TS infers them as `any`.
+     */
+    mergeStatics?: MergedStatics[];
+}
+/** The strategies for composing methods across the chain. See `MixinMeta.compose`. */
+export type MethodComposition = "chain" | "reverse" | "collect";
+/** The composed methods by name: `{ [methodName]: MethodComposition }`. */
+export type MethodCompositions = Record<string, MethodComposition>;
+/** Type for a mixin defined with `defineMixin`: the mixin function with the `mixinMeta` attached. */
+export type DefinedMixin<
+    Mixin extends (Base: any) => AbstractClassType = (Base: any) => AbstractClassType,
+    Requires extends Array<(Base: any) => AbstractClassType> = Array<(Base: any) => AbstractClassType>,
+    Compose extends MethodCompositions = MethodCompositions,
+    MergedStatics extends string = string
+> = Mixin & { mixinMeta: MixinMeta<Requires, Compose, MergedStatics>; };
+/** Read the required mixins of a mixin defined with `defineMixin`. Returns `[]` for other mixins (and for `any`). */
+export type RequiredMixins<Mixin> = 0 extends (1 & Mixin) ? [] : Mixin extends { mixinMeta: MixinMeta<infer Requires, any, any>; } ? Requires : [];
+/** The base class type for a mixin requiring the given mixins.
+ * - Like `MergeMixins` but without linking the constructor - so that the accumulated class types in `ValidateMixins` fit it.
+ */
+type RequiredBase<Requires extends Array<(Base: any) => AbstractClassType>, Class extends Object = {}, Instance extends Object = {}, Abstract extends boolean = IsAbstractChain<Requires>> =
+    Requires extends [] ? ClassType :
+    Requires extends [infer Mixin extends (Base: any) => AbstractClassType, ...infer Rest extends Array<(Base: any) => AbstractClassType>] ?
+        Rest extends [] ? AsClass<OverrideStatics<Class, ReturnType<Mixin>>, Instance & InstanceType<ReturnType<Mixin>>, any[], false, Abstract> :
+        RequiredBase<Rest, OverrideStatics<Class, ReturnType<Mixin>>, Instance & InstanceType<ReturnType<Mixin>>, Abstract> :
+    AsClass<OverrideStatics<Class, ReturnType<Requires[number]>>, Instance & InstanceType<ReturnType<Requires[number]>>, any[], false, Abstract>;
+/** Check whether the class mixed from the chain is abstract. Iterates from the last mixin to the first:
+ * - If the mixin returns an abstract class, the mixed class is abstract.
+ * - If the mixin returns a concrete class on top of an abstract base (as typed by its `Base` argument), it has implemented the abstract members: the mixed class is concrete.
+ * - Otherwise, the mixin does not change the outcome: continue to the previous one - and finally to BaseAbstract.
+ */
+type IsAbstractChain<Mixins extends any[], BaseAbstract extends boolean = false> =
+    Mixins extends [...infer Rest, infer Mixin extends (Base: any) => AbstractClassType] ?
+        IsAbstractClass<ReturnType<Mixin>> extends true ? true :
+        IsAbstractClass<Parameters<Mixin>[0]> extends true ? false :
+        IsAbstractChain<Rest, BaseAbstract> :
+    Mixins extends [] ? BaseAbstract :
+    // Non-tuple array, like: `MyMixin[]`.
+    IsAbstractClass<ReturnType<Mixins[number]>> extends true ? true : BaseAbstract;
+/** Check if the mixin is included in the list of mixins. Returns false for `any` (and `any` in the list matches nothing).
+ * - The mixins are compared by type identity (see `IsSameMixin`) - not by assignability. So a mixin extending an earlier one (eg. only overriding its methods) is never taken as its duplicate.
+ * - Note that a generic mixin (`typeof mixinTest1`) is not identical to its instantiated form (`typeof mixinTest1<MyInfo>`). So use the same form throughout the chain and in `requires`.
+ * - Note that the JS side compares the mixins by reference. So two different mixins of the exact same type are seen as duplicates on the TS side only: the later one is skipped in the typing (which changes nothing, as it has the same members), but is reported by the strict mode of `ValidateMixins`.
+ */
+type IncludesMixin<Mixins extends any[], Mixin> =
+    0 extends (1 & Mixin) ? false :
+    true extends (Mixins[number] extends infer Item ? Item extends any ? 0 extends (1 & Item) ? false : IsSameMixin<Item, Mixin> : never : never) ? true : false;
+/** Check if the two mixins are of identical types - using the identity relation of TS instead of mutual assignability.
+ * - So the mixins must have the same `Base` argument and return the same class type: a mixin adding no members or only overriding them differs by its `Base` argument.
+ */
+type IsSameMixin<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+/** Collect the required mixins of the Mixin recursively (in topological order) that are not yet in Resolved. Returns `[Resolved, Pulled]` with the new ones added to both. */
+type PullRequiredMixins<Mixin, Resolved extends any[], Pulled extends any[], Requires extends any[] = RequiredMixins<Mixin>> =
+    Requires extends [infer Required, ...infer Rest] ?
+        IncludesMixin<Resolved, Required> extends true ? PullRequiredMixins<Mixin, Resolved, Pulled, Rest> :
+        PullRequiredMixins<Required, Resolved, Pulled> extends [infer SubResolved extends any[], infer SubPulled extends any[]] ?
+            PullRequiredMixins<Mixin, [...SubResolved, Required], [...SubPulled, Required], Rest> : never :
+    [Resolved, Pulled];
+/** Resolve the mixins required by `defineMixin` into the chain and skip duplicates - like `mixins` and `mixinsWith` do on the JS side.
+ * - The trait objects are converted to mixins using `TraitToMixin`, and the conditional entries using `EntryToMixin`. The falsy entries are skipped.
+ * - Each required mixin is included right before the first mixin requiring it, unless already included. If it's given later in the chain, it's moved earlier.
+ * - A mixin already in the chain is skipped.
+ * - Note that `MergeMixins` (and its variants) resolve the chain automatically.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = defineMixin({ requires: [mixinTest1] }, Base => class Test2 extends Base { });
+ * 
+ * // Resolve.
+ * type Resolved1 = ResolveMixins<[typeof mixinTest2]>; // [typeof mixinTest1, typeof mixinTest2]
+ * type Resolved2 = ResolveMixins<[typeof mixinTest2, typeof mixinTest1]>; // [typeof mixinTest1, typeof mixinTest2]
+ * type Resolved3 = ResolveMixins<[typeof mixinTest1, typeof mixinTest1]>; // [typeof mixinTest1]
+ * 
+ * ```
+ */
+export type ResolveMixins<Mixins extends any[], Resolved extends any[] = [], Pulled extends any[] = []> =
+    Mixins extends [infer Entry, ...infer Rest] ? [Entry] extends [FalsyMixin] ? ResolveMixins<Rest, Resolved, Pulled> : EntryToMixin<Entry> extends infer Mixin ?
+        // Was already moved earlier as a requirement, or is a duplicate.
+        IncludesMixin<Resolved, Mixin> extends true ? ResolveMixins<Rest, Resolved, Pulled> :
+        // Pull in the requirements and add the mixin.
+        PullRequiredMixins<Mixin, Resolved, Pulled> extends [infer NewResolved extends any[], infer NewPulled extends any[]] ?
+            ResolveMixins<Rest, [...NewResolved, Mixin], NewPulled> : never : never :
+    // Finish up - or return as is for a non-tuple array.
+    Mixins extends [] ? Resolved : [...Resolved, ...{ [Index in keyof Mixins]: EntryToMixin<Mixins[Index]>; }];
+
 // Evaluate mixins.
+/** Diagnostic type used by `ValidateMixins` in place of each failed mixin. Shows up in the compile errors, for example:
+ * - `Argument of type ... is not assignable to parameter of type 'MixinError<1, "The required base is not satisfied by the earlier mixins.", [typeof mixinTest2], { num: number; testMe: (testInfo: MyInfo) => void; }, {}>'`.
+ * @param Position The index of the failed mixin in the chain.
+ * @param Reason Description of the failure.
+ * @param PresentMixins The mixins before the failed one in the chain.
+ * @param MissingMembers The instance members of the required base (`Parameters<Mixin>[0]`) that are missing or incompatible, with their required types.
+ * @param MissingStatics The static members of the required base that are missing or incompatible, with their required types.
+ * @param ConflictingMembers The instance members of the mixin that are not assignable to the same named members of the earlier mixins, with their types in the mixin.
+ */
+export interface MixinError<Position extends number = number, Reason extends string = string, PresentMixins extends any[] = any[], MissingMembers extends object = {}, MissingStatics extends object = {}, ConflictingMembers extends object = {}> {
+    mixinError: Reason;
+    position: Position;
+    presentMixins: PresentMixins;
+    missingMembers: MissingMembers;
+    missingStatics: MissingStatics;
+    conflictingMembers: ConflictingMembers;
+}
 /** Evaluate a chain of mixins.
- * - Returns back an array with the respective mixins or supplements with `never` for each failed item.
- * - The failure is by it required from previous mixins or by not being a function in the mixin form: `(Base: ClassType) => ClassType`.
+ * - Returns back an array with the respective mixins or supplements with a `MixinError` for each failed item.
+ * - The failure is by it required from previous mixins, by conflicting members with previous mixins or by not being a function in the mixin form: `(Base: ClassType) => ClassType` (nor a trait object).
+ * - The trait objects (see `MixinTrait`) are evaluated like the mixins created for them: `TraitToMixin<Trait>`.
+ * - The falsy entries (see `FalsyMixin`) are skipped. The conditional entries (like `typeof mixinTest1 | false`) are evaluated with their members optional: `EntryToMixin<Entry>`.
+ *      * So the later mixins are evaluated against both possible bases: they cannot require the members of a conditional mixin, nor conflict with them.
+ * - The `MixinError` tells the position of the failure, the mixins present before it, and which members of the required base are missing (or which members conflict).
+ * - A member conflicts, if its type in the mixin is not assignable to its type in the earlier mixins. (For example, `name: number` after `name: string` would otherwise result in `never`.)
+ * - A mixin already in the chain is accepted (it's skipped by `mixins` and `mixinsWith`), unless StrictDuplicates is true: then it's a `MixinError`.
  * - Note that the evaluation does not take into account how constructor arguments are passed - but validates instead inheritance of class features.
+ * - The chain is iterated as a tuple (tail-recursively), so there's no limit for its length. For non-tuple arrays (like `MyMixin[]`), the evaluation stops at the array part.
  * 
  * ```
  *
@@ -621,41 +2049,498 @@ export type ReMixinArgs<MixinClass, ConstructorArgs extends any[], MixinInstance
  * 
  * // Do some tests.
  * type EvalMixins1 = ValidateMixins<[Test1]>; // [typeof mixinTest1<MyInfo>]
- * type EvalMixins2 = ValidateMixins<[Test2]>; // [never]
+ * type EvalMixins2 = ValidateMixins<[Test2]>; // [MixinError<0, "The required base is not satisfied by the earlier mixins.", [], { testMe: (testInfo: MyInfo) => void; }, {}>]
  * type EvalMixins3 = ValidateMixins<[Test1, Test2]>; // [typeof mixinTest1<MyInfo>, typeof mixinTest2<MyInfo>]
- * type EvalMixins4 = ValidateMixins<[Test2, Test1]>; // [never, typeof mixinTest1<MyInfo>]
- * type IsChain3Invalid = IncludesValue<EvalMixins3, never>; // false
- * type IsChain4Invalid = IncludesValue<EvalMixins4, never>; // true
+ * type EvalMixins4 = ValidateMixins<[Test2, Test1]>; // [MixinError<0, ...>, typeof mixinTest1<MyInfo>]
+ * type IsChain3Invalid = IncludesValue<EvalMixins3, MixinError>; // false
+ * type IsChain4Invalid = IncludesValue<EvalMixins4, MixinError>; // true
  * 
  * // Funkier tests.
- * type EvalMixins5 = ValidateMixins<[Test1, Test2, "string"]>; // [..., never]
- * type EvalMixins6 = ValidateMixins<[Test1, Test2, () => {}]>; // [..., never]
+ * type EvalMixins5 = ValidateMixins<[Test1, Test2, "string"]>; // [..., MixinError<2, "Not a mixin: should be a function in the form (Base: ClassType) => ClassType, or a trait object.", ...>]
+ * type EvalMixins6 = ValidateMixins<[Test1, Test2, () => {}]>; // [..., MixinError<2, "Not a mixin: ...", ...>]
  * type EvalMixins7 = ValidateMixins<[Test1, Test2, (Base: ClassType) => ClassType ]>; // All ok.
+ * type EvalMixins7b = ValidateMixins<[Test1, Test2, { methods: { hello(): void; }; }]>; // All ok - a trait object.
+ * 
+ * // Conflicting members.
+ * const mixinTest3 = (Base: ClassType) => class Test3 extends Base { testMe: string = ""; }
+ * type EvalMixins8 = ValidateMixins<[Test1, typeof mixinTest3]>; // [..., MixinError<1, "Conflicting members: not assignable to the types in the earlier mixins.", ..., { testMe: string; }>]
  *
  * 
  * ```
  */
 export type ValidateMixins<
     Mixins extends Array<any>,
-    BaseClass extends ClassType = ClassType,
-    Processed extends Array<((Base: ClassType) => ClassType) | never> = [],
-    Index extends number | never = 0
+    BaseClass extends AbstractClassType = ClassType,
+    StrictDuplicates extends boolean = false,
+    Processed extends Array<MixinEntry | FalsyMixin | MixinError> = [],
+    Present extends Array<(Base: any) => AbstractClassType> = [],
+    Pulled extends Array<(Base: any) => AbstractClassType> = [],
+    Remaining extends Array<any> = Mixins
 > =
-    // Went through all, return outcome.
-    Index extends Mixins["length"] ? Processed :
-    // Went very far, but there's still more to go.
-    // .. Let's check it two ways: `Index extends never` from last iteration (over 20), and by `Mixins[Index] extends undefined`. The latter seems to be what TS needs in any case.
-    Index extends never ? IncludesValue<Processed, never> extends true ? [...Processed, ...any] : Mixins :
-    Mixins[Index] extends undefined ? IncludesValue<Processed, never> extends true ? [...Processed, ...any] : Mixins :
-    // Is a mixin.
-    Mixins[Index] extends (Base: ClassType) => ClassType ? ValidateMixins<Mixins, BaseClass & ReturnType<Mixins[Index]>, BaseClass extends Parameters<Mixins[Index]>[0] ? [...Processed, Mixins[Index]] : [...Processed, never], IterateForwards[Index]> :
-    // Not a mixin.
-    ValidateMixins<Mixins, BaseClass, [...Processed, never], IterateForwards[Index]>;
+    // Take the next one - trait objects and conditional entries are evaluated as mixins.
+    Remaining extends [infer Entry, ...infer Rest] ?
+        // Is skipped - a falsy entry.
+        [Entry] extends [FalsyMixin] ? ValidateMixins<Mixins, BaseClass, StrictDuplicates, [...Processed, Entry], Present, Pulled, Rest> :
+        // Is a mixin.
+        [Entry] extends [MixinEntry | FalsyMixin] ? EntryToMixin<Entry> extends infer Mixin extends (Base: any) => AbstractClassType ?
+            // Was already moved earlier as a requirement.
+            IncludesMixin<Pulled, Mixin> extends true ? ValidateMixins<Mixins, BaseClass, StrictDuplicates, [...Processed, Entry], Present, Pulled, Rest> :
+            // Is a duplicate - skipped, or an error in strict mode.
+            IncludesMixin<Present, Mixin> extends true ?
+                ValidateMixins<Mixins, BaseClass, StrictDuplicates, [...Processed, StrictDuplicates extends true ? MixinError<Processed["length"], "Duplicate mixin: already included in the chain.", Present> : Entry], Present, Pulled, Rest> :
+            // Pull in the requirements (if any) and evaluate.
+            PullRequiredMixins<Mixin, Present, Pulled> extends [infer NewPresent extends Array<(Base: any) => AbstractClassType>, [...Pulled, ...infer Added extends Array<(Base: any) => AbstractClassType>]] ?
+                MixinsReturns<Added, BaseClass> extends infer PulledBase extends AbstractClassType ?
+                    ValidateMixins<Mixins, OverrideStatics<PulledBase, ReturnType<Mixin>>, StrictDuplicates, [...Processed, ValidateMixin<Mixin, PulledBase, Processed["length"], NewPresent, Entry>], [...NewPresent, Mixin], [...Pulled, ...Added], Rest> :
+                never :
+            never :
+        never :
+        // Not a mixin.
+        ValidateMixins<Mixins, BaseClass, StrictDuplicates, [...Processed, MixinError<Processed["length"], "Not a mixin: should be a function in the form (Base: ClassType) => ClassType, or a trait object.", Present>], Present, Pulled, Rest> :
+    // Went through all, return outcome - and check the init hooks against the mixed instance.
+    Remaining extends [] ? IncludesValue<Processed, MixinError> extends true ? Processed : ValidateInitHooks<Processed, InstanceTypeFrom<BaseClass>> :
+    // There's still more to go, but it's not a tuple (eg. `MyMixin[]`) - so cannot evaluate it further.
+    // .. Note that returning `Mixins` as is (when all was okay) is what TS needs for inferring the mixins from the arguments.
+    IncludesValue<Processed, MixinError> extends true ? [...Processed, ...Remaining] : Mixins;
+/** Evaluate a single mixin against the accumulated BaseClass. Returns the Entry (defaults to the Mixin) if fits, or otherwise a MixinError describing the missing or conflicting members.
+ * - Note that the members are mapped inline (not through a type alias), so that error messages show them as plain object types.
+ */
+type ValidateMixin<Mixin extends (Base: any) => AbstractClassType, BaseClass, Position extends number, Present extends any[], Entry = Mixin> =
+    // Note. The abstractness of the base does not matter here: a mixin typed for a concrete base can extend an abstract one.
+    BaseClass & ClassType<InstanceTypeFrom<BaseClass>> extends Parameters<Mixin>[0] ?
+        [InstanceTypeFrom<BaseClass>, InstanceType<ReturnType<Mixin>>] extends [infer Has, infer Adds] ?
+            { [Key in keyof Adds & keyof Has as [Adds[Key]] extends [Has[Key]] ? never : Key]: Adds[Key]; } extends infer Conflicts extends object ?
+                [keyof Conflicts] extends [never] ? Entry :
+                MixinError<Position, "Conflicting members: not assignable to the types in the earlier mixins.", Present, {}, {}, Conflicts> :
+            never :
+        never :
+    [InstanceTypeFrom<BaseClass>, Parameters<Mixin>[0], InstanceTypeFrom<Parameters<Mixin>[0]>] extends [infer Has, infer RequiredClass, infer Requires] ?
+        MixinError<
+            Position,
+            "The required base is not satisfied by the earlier mixins.",
+            Present,
+            { [Key in keyof Requires as Key extends keyof Has ? Has[Key] extends Requires[Key] ? never : Key : Key]: Requires[Key]; },
+            { [Key in keyof RequiredClass as Key extends "prototype" | keyof MixinContext<any> | keyof MixinChainStatics<any> ? never : Key extends keyof BaseClass ? BaseClass[Key] extends RequiredClass[Key] ? never : Key : Key]: RequiredClass[Key]; }
+        > : never;
+/** Find the conflicting members in the chain: the members of a mixin that are not assignable to the same named members of the earlier mixins.
+ * - Returns an array of `MixinError`s (with the conflicting members) for each conflicting mixin, or `[]` if there are no conflicts.
+ * - The chain is first resolved using `ResolveMixins`, and the positions refer to the resolved chain.
+ * - The same check is included in `ValidateMixins`.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { name: string = ""; }
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base { name: number = 0; }
+ * 
+ * // Test.
+ * type Conflicts = MixinConflicts<[typeof mixinTest1, typeof mixinTest2]>; // [MixinError<1, "Conflicting members: ...", [typeof mixinTest1], {}, {}, { name: number; }>]
+ * type NoConflicts = MixinConflicts<[typeof mixinTest1]>; // []
+ * 
+ * ```
+ */
+export type MixinConflicts<Mixins extends Array<MixinEntry | FalsyMixin>> = MixinConflictsChain<ResolveMixins<Mixins>>;
+/** The iterating part of `MixinConflicts` - for the already resolved chain. */
+type MixinConflictsChain<Mixins extends Array<any>, Present extends any[] = [], Has = {}, Conflicts extends MixinError[] = []> =
+    Mixins extends [infer Mixin extends (Base: any) => AbstractClassType, ...infer Rest] ?
+        InstanceType<ReturnType<Mixin>> extends infer Adds ?
+            { [Key in keyof Adds & keyof Has as [Adds[Key]] extends [Has[Key]] ? never : Key]: Adds[Key]; } extends infer MixinConflicts extends object ?
+                MixinConflictsChain<Rest, [...Present, Mixin], Has & Adds, [keyof MixinConflicts] extends [never] ? Conflicts : [...Conflicts, MixinError<Present["length"], "Conflicting members: not assignable to the types in the earlier mixins.", Present, {}, {}, MixinConflicts>]> :
+            never :
+        never :
+    Conflicts;
+/** Intersect the class types returned by the mixins onto the BaseClass - with the later statics overriding the earlier. */
+type MixinsReturns<Mixins extends Array<(Base: any) => AbstractClassType>, BaseClass = ClassType> =
+    Mixins extends [infer Mixin extends (Base: any) => AbstractClassType, ...infer Rest extends Array<(Base: any) => AbstractClassType>] ? MixinsReturns<Rest, OverrideStatics<BaseClass, ReturnType<Mixin>>> : BaseClass;
+
+// Mixin options.
+/** Read the options type of a mixin: the first constructor argument of the class it returns. Returns `{}` if the mixin takes no options (eg. uses `...args: any[]`).
+ * - For a mixin bundled by `composeMixins`, intersects the options of its inner mixins - as each inner mixin gets the options routed to it.
+ */
+export type MixinOptions<Mixin> =
+    0 extends (1 & Mixin) ? {} :
+    Mixin extends ComposedMixinChain<infer Inner extends Array<any>> ? MixinsOptionsChain<Inner> :
+    Mixin extends (Base: any) => abstract new (...args: infer Args) => any ?
+        Args extends [infer Options extends object, ...any[]] ? Options : {} :
+    {};
+/** Intersect the options of all the mixins in the chain. Used for the constructor of the mixed class with `createMixins({ mixinOptions: true })`.
+ * - The chain is first resolved using `ResolveMixins`, so the options of the required mixins are included.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base {
+ *     num: number;
+ *     constructor(options: { num: number; }) { super(); this.num = options.num; }
+ * }
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base {
+ *     name: string;
+ *     constructor(options: { name: string; }) { super(); this.name = options.name; }
+ * }
+ * 
+ * // Test.
+ * type Options = MixinsOptions<[typeof mixinTest1, typeof mixinTest2]>; // { num: number; } & { name: string; }
+ * 
+ * ```
+ */
+export type MixinsOptions<Mixins extends Array<MixinEntry | FalsyMixin>> = MixinsOptionsChain<ResolveMixins<Mixins>>;
+/** The iterating part of `MixinsOptions` - for the already resolved chain. */
+type MixinsOptionsChain<Mixins extends Array<any>, Options extends object = {}> =
+    Mixins extends [infer Mixin, ...infer Rest] ? MixinsOptionsChain<Rest, Options & MixinOptions<Mixin>> :
+    Mixins extends [] ? Options :
+    Options & MixinOptions<Mixins[number]>;
+
+// Method composition.
+/** Read the composed methods of a mixin defined with `defineMixin`. Returns `{}` for other mixins (and for `any`). */
+export type MixinCompositions<Mixin> = 0 extends (1 & Mixin) ? {} : Mixin extends { mixinMeta: { compose?: infer Compose extends MethodCompositions; }; } ? Compose : {};
+/** Collect the composed methods of the chain: the later mixins override the earlier. The chain is first resolved using `ResolveMixins`.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = defineMixin({ compose: { init: "chain", dispose: "reverse" } }, (Base: ClassType) => class Test1 extends Base { init(): void {} dispose(): void {} });
+ * const mixinTest2 = defineMixin({ compose: { validate: "collect" } }, (Base: ClassType) => class Test2 extends Base { validate(): string | null { return null; } });
+ * 
+ * // Test.
+ * type Compositions = MixinsCompositions<[typeof mixinTest1, typeof mixinTest2]>; // { init: "chain"; dispose: "reverse"; validate: "collect"; }
+ * 
+ * ```
+ */
+export type MixinsCompositions<Mixins extends Array<MixinEntry | FalsyMixin>> = MixinsCompositionsChain<ResolveMixins<Mixins>>;
+/** The iterating part of `MixinsCompositions` - for the already resolved chain. */
+type MixinsCompositionsChain<Mixins extends Array<any>, Compositions extends object = {}> =
+    Mixins extends [infer Mixin, ...infer Rest] ? MixinsCompositionsChain<Rest, Omit<Compositions, keyof MixinCompositions<Mixin>> & MixinCompositions<Mixin>> :
+    Mixins extends [] ? Compositions :
+    Compositions & MixinCompositions<Mixins[number]>;
+/** Apply the composed signatures onto the instance: the "collect" methods return an array of the results. (The "chain" and "reverse" methods keep their signature.)
+ * - The composed signature is put first in the intersection, so that it's the overload used for calls. (Using Omit on Instance would turn the methods to property functions.)
+ * - As a consequence, the "collect" methods cannot be overridden in the extending class - instead add the implementation in a mixin.
+ */
+type ComposeMethods<Instance, Compositions> =
+    { [Key in keyof Compositions]: Compositions[Key] extends "collect" ? Key : never; }[keyof Compositions] extends infer CollectKeys extends keyof Instance ?
+        [CollectKeys] extends [never] ? Instance :
+        { [Key in CollectKeys]: Instance[Key] extends (...args: infer Args) => infer Result ? (...args: Args) => Result[] : Instance[Key]; } & Instance :
+    Instance;
+
+// Init hooks.
+/** Read the `this` type required by the init hook of the mixin instance (see `mixinInit`). Returns `unknown` if has no hook, or the hook does not type its `this`. */
+export type MixinInitThis<Instance> =
+    Instance extends { [mixinInit]: (this: infer This, ...args: any[]) => any; } ? unknown extends This ? unknown : This : unknown;
+/** Check the init hooks of the processed entries against the fully mixed instance: each hook's `this` should be satisfied by it. Returns the entries as is, with a `MixinError` in place of each failed one. */
+type ValidateInitHooks<Processed extends any[], Instance> = {
+    [Index in keyof Processed]:
+        [Processed[Index]] extends [FalsyMixin] ? Processed[Index] :
+        EntryToMixin<Processed[Index]> extends (Base: any) => infer Class ?
+            MixinInitThis<InstanceTypeFrom<Class>> extends infer Requires ?
+                Instance extends Requires ? Processed[Index] :
+                Index extends `${infer Position extends number}` ?
+                    MixinError<Position, "The init hook requires members not in the mixed instance.", [], { [Key in keyof Requires as Key extends keyof Instance ? Instance[Key] extends Requires[Key] ? never : Key : Key]: Requires[Key]; }> :
+                never :
+            never :
+        Processed[Index];
+};
+
+// Static side.
+/** Put the static side of the Later class on top of the Class: the same named statics are overridden (like with class inheritance) instead of intersected.
+ * - If nothing is overridden, returns a plain intersection. Otherwise, the construct signature of the Class is kept (as abstract), so that the instance types are still intersected.
+ * - The kept statics are mapped into a plain object type (instead of using `Omit`), and if all are overridden (typical when the Later class extends the Class), nothing is kept. So that the outcome does not nest at each step of a chain - which made `ValidateMixins` hit the instantiation limit for chains of ~20 mixins with statics.
+ */
+type OverrideStatics<Class, Later> =
+    Exclude<keyof Class & keyof Later, "prototype"> extends infer Overridden extends PropertyKey ?
+        [Overridden] extends [never] ? Class & Later :
+        Exclude<keyof Class, Overridden | "prototype"> extends infer Kept extends PropertyKey ?
+            [Kept] extends [never] ? AbstractClassType<InstanceTypeFrom<Class>> & Later :
+            { [Key in Kept]: Class[Key & keyof Class]; } & AbstractClassType<InstanceTypeFrom<Class>> & Later :
+        never :
+    never;
+/** Read the merged statics of a mixin defined with `defineMixin`: the names in `mergeStatics`. Returns never for other mixins (and for `any`). */
+export type MixinMergedStatics<Mixin> = 0 extends (1 & Mixin) ? never : Mixin extends { mixinMeta: { mergeStatics?: Array<infer Key extends string>; }; } ? Key : never;
+/** Collect the merged statics of the chain as a union of names. The chain is first resolved using `ResolveMixins`.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = defineMixin({ mergeStatics: ["defaults"] }, (Base: ClassType) => class Test1 extends Base { static defaults: { num: number; } = { num: 5 }; });
+ * const mixinTest2 = (Base: ClassType) => class Test2 extends Base { static defaults = { name: "" }; }
+ * 
+ * // Test.
+ * type MergedStatics = MixinsMergedStatics<[typeof mixinTest1, typeof mixinTest2]>; // "defaults"
+ * type Defaults = MergeMixins<[typeof mixinTest1, typeof mixinTest2]>["defaults"]; // { num: number; name: string; } (as an intersection)
+ * 
+ * ```
+ */
+export type MixinsMergedStatics<Mixins extends Array<MixinEntry | FalsyMixin>> = MixinMergedStatics<ResolveMixins<Mixins>[number]>;
+/** Merge the static objects named by Keys across the chain (the Class first): the later properties override the earlier. Returns `{ [Key]: MergedObject }`. */
+type MergeStaticObjects<Mixins extends Array<any>, Keys extends PropertyKey, Class, Merged = { [Key in Keys]: Key extends keyof Class ? Class[Key] : {}; }> =
+    Mixins extends [infer Mixin extends (Base: any) => AbstractClassType, ...infer Rest] ? MergeStaticObjects<Rest, Keys, ReturnType<Mixin>, OverrideStaticObjects<Merged, ReturnType<Mixin>>> :
+    Mixins extends [] ? Merged :
+    OverrideStaticObjects<Merged, ReturnType<Mixins[number]>>;
+/** Put the static objects of the Class on top of the Merged ones. */
+type OverrideStaticObjects<Merged, Class> = {
+    [Key in keyof Merged]: Key extends keyof Class ? [keyof Merged[Key] & keyof Class[Key]] extends [never] ? Merged[Key] & Class[Key] : Omit<Merged[Key], keyof Class[Key]> & Class[Key] : Merged[Key];
+};
+
+// Mixin context.
+/** Declares the shared type-argument context in the `Base` argument of a generic mixin: `<Info = {}>(Base: ClassType & MixinContext<Info>) => ...`.
+ * - When added with `mixinsBuilder<MyInfo>()`, the mixin gets the context as its type argument: `Info` is `MyInfo`.
+ * - The member is only used for typing: it does not exist on the JS side.
+ */
+export interface MixinContext<Context> {
+    mixinContext?: Context;
+}
+/** The builder returned by `mixinsBuilder` - see its notes. Each `add` and `base` returns a new builder, or a `MixinError` if the chain does not fit. */
+export interface MixinsBuilder<Context = {}, BaseClass extends AbstractClassType | null = null, Mixins extends Array<(Base: any) => AbstractClassType> = []> {
+    /** Add a mixin to the chain. If the mixin declares the context (`MixinContext<Info>`), it gets the Context as its type argument. */
+    add<Class extends AbstractClassType, Mixin>(mixin: ContextMixin<Context, Class> & Mixin): MixinsBuilderNext<Context, BaseClass, [...Mixins, ContextBoundMixin<Mixin, Class>]>;
+    /** Set the base class for the chain - like the first argument of `mixinsWith`. */
+    base<Base extends AbstractClassType>(Base: Base): MixinsBuilderNext<Context, Base, Mixins>;
+    /** Create the mixed class - using `mixins`, or `mixinsWith` if the base class was set. */
+    mix(): BaseClass extends AbstractClassType ? MergeMixinsWith<BaseClass, Mixins> : MergeMixins<Mixins>;
+}
+/** The mixin form used by `MixinsBuilder.add` to bind the context: the generic mixins are instantiated against its `Base` argument.
+ * - Uses the method form, so that the `Base` argument is compared bivariantly - also with `strictFunctionTypes`.
+ */
+type ContextMixin<Context, Class extends AbstractClassType> = { bivarianceHack(Base: ClassType & MixinContext<Context>): Class; }["bivarianceHack"];
+/** Re-create the mixin (as bound by `MixinsBuilder.add`) with its `Base` argument and meta, and the class it returns with the context. */
+type ContextBoundMixin<Mixin, Class extends AbstractClassType> = ((Base: Mixin extends (Base: infer RequiredBase) => any ? RequiredBase : any) => Class) & PickAll<Mixin>;
+/** Evaluate the chain and return the next builder, or the first `MixinError`. */
+type MixinsBuilderNext<Context, BaseClass extends AbstractClassType | null, Mixins extends Array<(Base: any) => AbstractClassType>> =
+    FirstMixinError<ValidateMixins<Mixins, BaseClass extends AbstractClassType ? BaseClass : ClassType>> extends infer Error ?
+        [Error] extends [never] ? MixinsBuilder<Context, BaseClass, Mixins> : Error :
+    never;
+/** Find the first `MixinError` in the evaluated chain. Returns never if not found. */
+type FirstMixinError<Arr extends any[]> = Arr extends [infer Item, ...infer Rest] ? Item extends MixinError ? Item : FirstMixinError<Rest> : never;
+
+// Decorator.
+/** Companion typing for a class decorated with `withMixins`: the instance side of the mixins. Use it in a matching interface: `interface MyMix extends WithMixins<[typeof mixinTest1]> { }`.
+ * - This is exactly like `MixinsInstance` (see its notes) - the interface merges it with the class.
+ */
+export type WithMixins<Mixins extends Array<MixinEntry | FalsyMixin>, ConstructorArgs extends any[] = LastMixinArgs<ResolveMixins<Mixins>>> = MixinsInstance<Mixins, ConstructorArgs>;
+/** The class decorator returned by `withMixins`: evaluates the mixins against the decorated class (see `WithMixinsBase`), and returns the mixed class. */
+type WithMixinsDecorator<Mixins extends Array<MixinEntry | FalsyMixin>> = <Class extends AbstractClassType>(Class: Class & WithMixinsBase<Class, Mixins>, context?: { kind: "class"; name: string | undefined; }) => MergeMixinsWith<Class, Mixins>;
+/** Evaluate the mixins against the class decorated with `withMixins`. Returns `unknown` if fits, or otherwise the first `MixinError`. */
+type WithMixinsBase<Class extends AbstractClassType, Mixins extends Array<MixinEntry | FalsyMixin>> =
+    FirstMixinError<ValidateMixins<Mixins, Class>> extends infer Error ? [Error] extends [never] ? unknown : Error : never;
+
+// Mixin chain.
+/** The mixin chain of a mixed class - as returned by `getMixinChain`. */
+export interface MixinChain<Mixins extends Array<(Base: any) => AbstractClassType> = Array<(Base: any) => AbstractClassType>, BaseClass extends AbstractClassType = AbstractClassType> {
+    /** The mixed class: the class returned by `mixins` or `mixinsWith`. */
+    Class: AbstractClassType;
+    /** The base class of the chain: the class given to `mixinsWith`, or `Object` for `mixins`. */
+    Base: BaseClass;
+    /** The mixins in order - as resolved: including the required mixins and skipping the duplicates. */
+    mixins: Readonly<Mixins>;
+    /** The classes generated by the mixins - in the same order as the mixins. */
+    classes: Readonly<{ [Index in keyof Mixins]: Mixins[Index] extends (Base: any) => infer Class ? Class : never; }>;
+}
+/** Read the mixin chain of a class typed by `MergeMixins` (and its variants), including the classes extending it. Returns `MixinChain` (untyped) for other classes.
+ * - Note that the TS side cannot see the mixins already applied in the base class given to `mixinsWith`. So they are listed in the chain, while skipped on the JS side.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = defineMixin({ requires: [mixinTest1] }, Base => class Test2 extends Base { });
+ * 
+ * // Test.
+ * class MyBase { }
+ * class MyMix extends mixinsWith(MyBase, mixinTest2) { }
+ * type Chain = MixinChainOf<typeof MyMix>; // MixinChain<[typeof mixinTest1, typeof mixinTest2], typeof MyBase>
+ * type Classes = Chain["classes"]; // readonly [typeof Test1, typeof Test2]
+ * 
+ * ```
+ */
+export type MixinChainOf<Class> =
+    0 extends (1 & Class) ? MixinChain :
+    Class extends MixinChainStatics<infer Chain> ? Exclude<Chain, undefined> extends infer MixedChain extends MixinChain<any, any> ? MixedChain : MixinChain :
+    MixinChain;
+/** The static member used for typing the chain on the mixed class (see `MixinChainOf`). It does not exist on the JS side. */
+type MixinChainStatics<Chain> = { mixinChain?: Chain; };
+/** The named class type for `mixinsAs` and `mixinsWithAs`: a class whose chain is merged from the Mixins (as resolved). */
+type NamedMixinsClass<Mixins extends Array<MixinEntry | FalsyMixin>, BaseClass extends AbstractClassType = ObjectConstructor> = AbstractClassType & MixinChainStatics<MixinChain<ResolveMixins<Mixins>, BaseClass>>;
+/** Omit a mixin from the chain and merge the remaining chain (using `MergeMixins`). Returns the first `MixinError` instead, if the remaining chain does not fit anymore.
+ * - The chain is first resolved using `ResolveMixins`, and then the mixin (a mixin function or a trait object) is omitted from it.
+ * - The remaining chain is evaluated using `ValidateMixins`. In addition, it's an error if a remaining mixin requires the omitted one by `defineMixin`.
+ * - Used for typing `withoutMixin`.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinLogger = (Base: ClassType) => class Logger extends Base { log(...args: any[]): void { } }
+ * const mixinTest2 = (Base: ReturnType<typeof mixinTest1>) => class Test2 extends Base { name: string = ""; }
+ * 
+ * // Test.
+ * type Mixins = [typeof mixinTest1, typeof mixinLogger, typeof mixinTest2];
+ * type MyMixLite = OmitMixin<Mixins, typeof mixinLogger>; // Like: MergeMixins<[typeof mixinTest1, typeof mixinTest2]>
+ * type MyMixFail = OmitMixin<Mixins, typeof mixinTest1>; // MixinError<1, "The required base is not satisfied by the earlier mixins.", [typeof mixinLogger], { num: number; }, {}>
+ * 
+ * ```
+ */
+export type OmitMixin<Mixins extends Array<MixinEntry | FalsyMixin>, Mixin, ConstructorArgs extends any[] = LastMixinArgs<ResolveMixins<Mixins>>> =
+    OmitMixinChain<OmitFromChain<ResolveMixins<Mixins>, TraitToMixin<Mixin>>, TraitToMixin<Mixin>, ClassType> extends infer Remaining ?
+        Remaining extends MixinError ? Remaining : Remaining extends Array<MixinEntry | FalsyMixin> ? MergeMixins<Remaining, ConstructorArgs> : never :
+    never;
+/** This is exactly like `OmitMixin` (see its notes) but allows to input the class type of the base class for the mixin chain. */
+export type OmitMixinWith<BaseClass extends AbstractClassType, Mixins extends Array<MixinEntry | FalsyMixin>, Mixin, ConstructorArgs extends any[] = LastMixinArgs<ResolveMixins<Mixins>>> =
+    OmitMixinChain<OmitFromChain<ResolveMixins<Mixins>, TraitToMixin<Mixin>>, TraitToMixin<Mixin>, BaseClass> extends infer Remaining ?
+        Remaining extends MixinError ? Remaining : Remaining extends Array<MixinEntry | FalsyMixin> ? MergeMixinsWith<BaseClass, Remaining, ConstructorArgs> : never :
+    never;
+/** Omit the mixin from the (resolved) chain. Non-tuple arrays are returned as is. */
+type OmitFromChain<Mixins extends Array<any>, Mixin, Remaining extends any[] = []> =
+    Mixins extends [infer Item, ...infer Rest] ? OmitFromChain<Rest, Mixin, IsSameMixin<Item, Mixin> extends true ? Remaining : [...Remaining, Item]> :
+    Mixins extends [] ? Remaining : [...Remaining, ...Mixins];
+/** Evaluate the remaining chain after omitting the Mixin. Returns the chain if fits, or otherwise the first `MixinError`. */
+type OmitMixinChain<Remaining extends Array<any>, Mixin, BaseClass extends AbstractClassType> =
+    FirstRequiring<Remaining, Mixin> extends infer Position extends number ?
+        [Position] extends [never] ?
+            FirstMixinError<ValidateMixins<Remaining, BaseClass>> extends infer Error ? [Error] extends [never] ? Remaining : Error : never :
+        MixinError<Position, "Requires the omitted mixin (by defineMixin).", []> :
+    never;
+/** Find the position of the first mixin in the chain requiring the Mixin by `defineMixin`. Returns never if none. */
+type FirstRequiring<Mixins extends Array<any>, Mixin, Processed extends any[] = []> =
+    Mixins extends [infer Item, ...infer Rest] ? IncludesMixin<RequiredMixins<Item>, Mixin> extends true ? Processed["length"] : FirstRequiring<Rest, Mixin, [...Processed, Item]> : never;
+/** The return type of `withoutMixin`: the chain of the mixed class (see `MixinChainOf`) without the mixin. */
+type WithoutMixin<Class, Mixin> =
+    MixinChainOf<Class> extends MixinChain<infer Mixins, infer BaseClass extends AbstractClassType> ?
+        ObjectConstructor extends BaseClass ? OmitMixin<Mixins, Mixin> : OmitMixinWith<BaseClass, Mixins, Mixin> :
+    never;
+/** Evaluate the chain of the mixed class without the mixin, for `withoutMixin`. Returns `unknown` if fits, or otherwise the `MixinError`. */
+type WithoutMixinCheck<Class, Mixin> = WithoutMixin<Class, Mixin> extends infer Error extends MixinError ? Error : unknown;
+
+// Mixin traits.
+/** A plain-object trait that can be used in place of a mixin in `mixins` and `mixinsWith`. The members are installed on a generated class layer.
+ * - `methods`: installed as (non-enumerable) methods on the prototype.
+ * - `getters`: installed as getters on the prototype - typed as readonly properties.
+ * - `statics`: copied as static members of the class (as property descriptors).
+ */
+export interface MixinTrait {
+    methods?: object;
+    getters?: object;
+    statics?: object;
+}
+/** An entry in a mixin chain: a mixin function in the form `(Base: ClassType) => ClassType`, or a trait object (see `MixinTrait`). */
+export type MixinEntry = ((Base: any) => AbstractClassType) | MixinTrait;
+/** Convert a trait object into the mixin type created for it on the JS side. Returns other entries as is.
+ * - Note that `this` inside the trait's methods is not typed as the mixed instance - use a mixin function for that.
+ *
+ * ```
+ *
+ * // Create a trait.
+ * const traitTest1 = {
+ *     methods: { hello(): string { return "hello"; } },
+ *     getters: { size(): number { return 5; } },
+ *     statics: { TRAIT: "test1" },
+ * };
+ *
+ * // Test.
+ * type Trait1 = TraitToMixin<typeof traitTest1>; // (Base: ClassType) => ClassType<{ hello(): string; } & { readonly size: number; }> & { TRAIT: string; }
+ *
+ * ```
+ */
+export type TraitToMixin<Entry> =
+    0 extends (1 & Entry) ? Entry :
+    Entry extends (...args: any[]) => any ? Entry :
+    Entry extends MixinTrait ? (Base: ClassType) => ClassType<TraitInstance<Entry>> & (Entry extends { statics: infer Statics; } ? Statics : {}) :
+    Entry;
+/** The instance type of a trait: its methods as is, and its getters as readonly properties. */
+type TraitInstance<Trait> =
+    (Trait extends { methods: infer Methods; } ? Methods : {}) &
+    (Trait extends { getters: infer Getters; } ? { readonly [Key in keyof Getters]: Getters[Key] extends (...args: any[]) => infer Value ? Value : never; } : {});
+
+// Conditional entries.
+/** The falsy values that can be used in place of a mixin in `mixins` and `mixinsWith`, to skip it: `mixins(mixinCore, isDev && mixinDebug, mixinStore)`. */
+export type FalsyMixin = false | null | undefined | 0 | "";
+/** Convert an entry in a mixin chain into a mixin type: trait objects using `TraitToMixin`, and conditional entries (like `typeof mixinTest1 | false`) using `OptionalMixin`. Returns `never` for falsy entries.
+ * 
+ * ```
+ * 
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const isDev: boolean = true;
+ * const maybeTest1 = isDev && mixinTest1;
+ * 
+ * // Test.
+ * type Entry1 = EntryToMixin<typeof mixinTest1>; // typeof mixinTest1
+ * type Entry2 = EntryToMixin<typeof maybeTest1>; // (Base: ClassType) => ClassType<Partial<Test1>> & {}
+ * type Entry3 = EntryToMixin<false>; // never
+ * 
+ * ```
+ */
+export type EntryToMixin<Entry> =
+    0 extends (1 & Entry) ? Entry :
+    [Entry] extends [FalsyMixin] ? never :
+    [Extract<Entry, FalsyMixin>] extends [never] ? TraitToMixin<Entry> :
+    TraitToMixin<Exclude<Entry, FalsyMixin>> extends infer Mixin extends (Base: any) => AbstractClassType ? OptionalMixin<Mixin> : Entry;
+/** Convert a mixin into a mixin adding its members as optional - on the instance and static sides. Used for the conditional entries (see `EntryToMixin`).
+ * - The `prototype` is not included in the optional statics: it would conflict with the prototype of the extending class (TS2417 on newer TS versions).
+ * - Note that the mixin meta (see `defineMixin`) is not kept: so the requirements of a conditional mixin are not included automatically on the TS side.
+ */
+export type OptionalMixin<Mixin extends (Base: any) => AbstractClassType> =
+    [ReturnType<Mixin>, Partial<InstanceType<ReturnType<Mixin>>>, GetConstructorArgs<ReturnType<Mixin>, any[]>] extends [infer Class, infer Instance, infer Args extends any[]] ?
+        (Base: Parameters<Mixin>[0]) => (IsAbstractClass<Class> extends true ? AbstractClassType<Instance, Args> : ClassType<Instance, Args>) & { [Key in keyof Class as Key extends "prototype" ? never : Key]?: Class[Key]; } :
+    never;
+
+// Composed mixins.
+/** The type of a mixin bundled by `composeMixins`: a mixin requiring the base class to provide what the inner chain still needs, and returning the merged chain on top of it.
+ * - Its required base is computed by `ComposedBase` by default, and the return type by `MergeMixinsWith`.
+ * - When called directly, the base class type is inferred (like with `AsMixin` and `ReMixin`). The last signature is for reading the mixin by `Parameters` and `ReturnType`.
+ *
+ * ```
+ *
+ * // Create mixins.
+ * const mixinTest1 = (Base: ClassType) => class Test1 extends Base { num: number = 5; }
+ * const mixinTest2 = (Base: ClassType<{ name: string; }>) => class Test2 extends Base { }
+ *
+ * // Test.
+ * type Composed = ComposedMixin<[typeof mixinTest1, typeof mixinTest2]>;
+ * type Requires = Parameters<Composed>[0]; // ClassType<{ name: string; }>
+ * type Returns = InstanceType<ReturnType<Composed>>; // { name: string; } & Test1 & Test2
+ *
+ * ```
+ */
+export type ComposedMixin<Mixins extends Array<MixinEntry | FalsyMixin>, RequiredClass extends ClassType = ComposedBase<ResolveMixins<Mixins>>> =
+    (<TBase extends RequiredClass>(Base: TBase) => MergeMixinsWith<TBase, Mixins>) & ((Base: RequiredClass) => MergeMixinsWith<RequiredClass, Mixins>) & ComposedMixinChain<ResolveMixins<Mixins>>;
+/** The member used for typing the inner chain on a mixin bundled by `composeMixins` (eg. for `MixinsOptions`). It does not exist on the JS side. */
+type ComposedMixinChain<Mixins extends Array<any>> = { composedMixins?: Mixins; };
+/** Collect the requirements of the (resolved) chain that are not fulfilled within it: the members that the mixins require from their base, but no earlier mixin provides.
+ * - Returns the class type that the base class should match - an empty requirement (`ClassType`) if the chain is self-sufficient.
+ */
+export type ComposedBase<Mixins extends Array<any>, Provides = {}, ProvidesStatics = {}, Requires = {}, RequiresStatics = {}> =
+    Mixins extends [infer Mixin extends (Base: any) => AbstractClassType, ...infer Rest] ?
+        [Parameters<Mixin>[0], InstanceTypeFrom<Parameters<Mixin>[0]>, ReturnType<Mixin>] extends [infer RequiredClass, infer Required, infer MixinClass] ?
+            ComposedBase<
+                Rest,
+                Provides & InstanceTypeFrom<MixinClass>,
+                ProvidesStatics & MixinClass,
+                Requires & { [Key in keyof Required as Key extends keyof Provides ? never : Key]: Required[Key]; },
+                RequiresStatics & { [Key in keyof RequiredClass as Key extends "prototype" | keyof ProvidesStatics | keyof MixinContext<any> | keyof MixinChainStatics<any> ? never : Key]: RequiredClass[Key]; }
+            > :
+        never :
+    // Finish up - or use the item type for a non-tuple array.
+    Mixins extends [] ?
+        [keyof RequiresStatics] extends [never] ? ClassType<{ [Key in keyof Requires]: Requires[Key]; }> :
+        ClassType<{ [Key in keyof Requires]: Requires[Key]; }> & { [Key in keyof RequiresStatics]: RequiresStatics[Key]; } :
+    Parameters<Mixins[number]>[0] extends infer RequiredClass extends ClassType ? RequiredClass : ClassType;
 
 // Merge mixins.
+/** Read the constructor args of the last mixin in the chain. Used as the default for ConstructorArgs in `MergeMixins` and its variants. */
+type LastMixinArgs<Mixins extends Array<any>> =
+    Mixins extends [...any[], infer Mixin extends (Base: any) => AbstractClassType] ? GetConstructorArgs<ReturnType<Mixin>> : any[];
 /** Intersect mixins to a new clean class.
  * - Note that if the mixins contain dependencies of other mixins, should type the dependencies fully to avoid unknown. See below.
  * - Put in optional 2nd argument to type ConstructorArgs for the final outcome explicitly. Defaults to the args of the last in chain.
+ * - The chain is first resolved using `ResolveMixins`: the mixins required by `defineMixin` are included, and duplicates skipped.
+ * - The methods composed with "collect" (see `MixinMeta.compose`) return an array of the results.
+ * - On the static side, the statics of the later mixins override the earlier ones (like with class inheritance), instead of being intersected.
+ *      * The static objects named by `mergeStatics` (see `MixinMeta.mergeStatics`) are merged instead: the later properties override the earlier.
+ *      * The chain is typed as an optional static member `mixinChain` (that does not exist on the JS side) - read it with `MixinChainOf`.
+ * - The chain is iterated as a tuple (tail-recursively) from the last to the first, so there's no limit for its length.
+ *      * For non-tuple arrays (like `MyMixin[]` or `[Mixin1, ...MyMixin[]]`), the array part is merged using its item type.
+ * - For compact declarations (with `declaration: true`), name the merged class type by an interface and use it as the base class.
+ *      * Like: `interface MyMixType extends MergeMixins<MyMixins> {}` and `class MyMix extends mixinsAs<MyMixType, MyMixins>(mixinTest1, mixinTest2) {}` - see `mixinsAs`.
+ *      * The .d.ts file then refers to `MyMixType` instead of writing out the merged class type in full.
  * ```
  *
  * // Create mixins.
@@ -669,8 +2554,8 @@ export type ValidateMixins<
  * type MergedClassType = MergeMixins<Mixins>;
  * 
  * // Extra. MergeMixins does not evaluate the chain. Do it with ValidateMixins.
- * type IsChainInvalid = IncludesValue<ValidateMixins<Mixins>, never>; // false
- * type IsChainInvalidNow = IncludesValue<ValidateMixins<[Mixins[1], Mixins[0], Mixins[2]]>, never>; // true
+ * type IsChainInvalid = IncludesValue<ValidateMixins<Mixins>, MixinError>; // false
+ * type IsChainInvalidNow = IncludesValue<ValidateMixins<[Mixins[1], Mixins[0], Mixins[2]]>, MixinError>; // true
  * 
  * // Fake a class.
  * const MergedClass = class MergedClass { } as unknown as MergedClassType;
@@ -685,25 +2570,52 @@ export type ValidateMixins<
  * ```
  */
 export type MergeMixins<
-    Mixins extends Array<(Base: ClassType) => ClassType>,
-    ConstructorArgs extends any[] = Mixins["length"] extends 0 ? any[] : GetConstructorArgs<ReturnType<Mixins[IterateBackwards[Mixins["length"]]]>>,
+    Mixins extends Array<MixinEntry | FalsyMixin>,
+    ConstructorArgs extends any[] = LastMixinArgs<ResolveMixins<Mixins>>,
     Class extends Object = {},
-    Instance extends Object = {},
-    Index extends number | never = Mixins["length"] extends 0 ? never : number extends Mixins["length"] ? never : IterateBackwards[Mixins["length"]]
+    Instance extends Object = {}
+> = MergeMixinsChain<
+    ResolveMixins<Mixins>,
+    ConstructorArgs,
+    Class,
+    Instance,
+    MixinsCompositions<Mixins>,
+    IsAbstractChain<ResolveMixins<Mixins>, IsAbstractClass<Class>>,
+    MixinChainStatics<MixinChain<ResolveMixins<Mixins>, {} extends Class ? ObjectConstructor : Class extends AbstractClassType ? Class : AbstractClassType>> &
+        ([MixinsMergedStatics<Mixins>] extends [never] ? {} : MergeStaticObjects<ResolveMixins<Mixins>, MixinsMergedStatics<Mixins>, Class>)
+>;
+/** The iterating part of `MergeMixins` - for the already resolved chain.
+ * - The Class collects the statics from the start of the chain, and the Statics from the end (as the chain is iterated backwards, if possible).
+ */
+type MergeMixinsChain<
+    Mixins extends Array<any>,
+    ConstructorArgs extends any[],
+    Class extends Object,
+    Instance extends Object,
+    Compositions extends object,
+    Abstract extends boolean,
+    MergedStatics extends object,
+    Statics = {}
 > = 
-    // Too far to begin with.
-    Index extends never ? AsClass<Class, Instance, ConstructorArgs> :
+    // Take the last one.
+    Mixins extends [...infer Rest extends Array<(Base: any) => AbstractClassType>, infer Mixin extends (Base: any) => AbstractClassType] ?
+        MergeMixinsChain<Rest, ConstructorArgs, Class, Instance & InstanceType<ReturnType<Mixin>>, Compositions, Abstract, MergedStatics, OverrideStatics<ReturnType<Mixin>, Statics>> :
+    // Take the first one - in case ends with a non-tuple array part, like: `[Mixin1, ...MyMixin[]]`.
+    Mixins extends [infer Mixin extends (Base: any) => AbstractClassType, ...infer Rest extends Array<(Base: any) => AbstractClassType>] ?
+        MergeMixinsChain<Rest, ConstructorArgs, OverrideStatics<Class, ReturnType<Mixin>>, Instance & InstanceType<ReturnType<Mixin>>, Compositions, Abstract, MergedStatics, Statics> :
     // Finish up.
-    Index extends 0 ? AsClass<Class & ReturnType<Mixins[Index]>, Instance & InstanceType<ReturnType<Mixins[Index]>>, ConstructorArgs> :
-    // More to go.
-    MergeMixins<Mixins, ConstructorArgs, Class & ReturnType<Mixins[Index]>, Instance & InstanceType<ReturnType<Mixins[Index]>>, IterateBackwards[Index]>;
+    Mixins extends [] ? AsClass<MergeStatics<OverrideStatics<Class, Statics>, MergedStatics>, ComposeMethods<Instance, Compositions>, ConstructorArgs, true, Abstract> :
+    // Non-tuple array, like: `MyMixin[]`.
+    AsClass<MergeStatics<OverrideStatics<OverrideStatics<Class, ReturnType<Mixins[number]>>, Statics>, MergedStatics>, ComposeMethods<Instance & InstanceType<ReturnType<Mixins[number]>>, Compositions>, ConstructorArgs, true, Abstract>;
+/** Apply the merged static objects (from `MergeStaticObjects`) and the chain info onto the static side of the Class. */
+type MergeStatics<Class, MergedStatics> = [keyof Class & keyof MergedStatics] extends [never] ? Class & MergedStatics : Omit<Class, keyof MergedStatics> & MergedStatics;
 
 /** This is exactly like MergeMixins (see its notes) but returns the instance type. Useful for creating a class interface.
  * - For example: `MixinsInstance<MixinsArray, ConstructorArgs?>`.
  */
 export type MixinsInstance<
-    Mixins extends Array<(Base: ClassType) => ClassType>,
-    ConstructorArgs extends any[] = Mixins["length"] extends 0 ? any[] : GetConstructorArgs<ReturnType<Mixins[IterateBackwards[Mixins["length"]]]>>,
+    Mixins extends Array<MixinEntry | FalsyMixin>,
+    ConstructorArgs extends any[] = LastMixinArgs<ResolveMixins<Mixins>>,
 > = InstanceType<MergeMixins<Mixins, ConstructorArgs>>;
 
 // With base class.
@@ -712,24 +2624,102 @@ export type MixinsInstance<
  * - For example: `MergeMixinsWith<typeof MyBaseClass, MixinsArray, ConstructorArgs?>`.
  */
 export type MergeMixinsWith<
-    BaseClass extends ClassType,
-    Mixins extends Array<(Base: ClassType) => ClassType>,
-    ConstructorArgs extends any[] = Mixins["length"] extends 0 ? any[] : GetConstructorArgs<ReturnType<Mixins[IterateBackwards[Mixins["length"]]]>>,
+    BaseClass extends AbstractClassType,
+    Mixins extends Array<MixinEntry | FalsyMixin>,
+    ConstructorArgs extends any[] = LastMixinArgs<ResolveMixins<Mixins>>,
 > = MergeMixins<Mixins, ConstructorArgs, BaseClass, InstanceType<BaseClass>>;
 
 /** This is exactly like MergeMixinsWith (see its notes) but returns the instance type. Useful for creating a class interface.
  * - For example: `MixinsInstanceWith<typeof MyBaseClass, MixinsArray, ConstructorArgs?>`.
  */
 export type MixinsInstanceWith<
-    BaseClass extends ClassType,
-    Mixins extends Array<(Base: ClassType) => ClassType>,
-    ConstructorArgs extends any[] = Mixins["length"] extends 0 ? any[] : GetConstructorArgs<ReturnType<Mixins[IterateBackwards[Mixins["length"]]]>>,
+    BaseClass extends AbstractClassType,
+    Mixins extends Array<MixinEntry | FalsyMixin>,
+    ConstructorArgs extends any[] = LastMixinArgs<ResolveMixins<Mixins>>,
 > = InstanceType<MergeMixins<Mixins, ConstructorArgs, BaseClass, InstanceType<BaseClass>>>;
 
+// Delegation.
+/** A part for `delegates`: a class, or a trait object - which is mixed into a class by `mixins`. (For a mixin function, give the class mixed from it: `mixins(mixinStore)`.) */
+export type DelegatePart = ClassType | MixinTrait;
+/** The component class for a part of `delegates`: the class as is, or the class mixed from the trait object by `mixins`. */
+export type DelegateClass<Part> = Part extends ClassType ? Part : Part extends MixinTrait ? MergeMixins<[Part]> : never;
+/** The component instance for a part of `delegates`. */
+export type DelegateInstance<Part> = InstanceTypeFrom<DelegateClass<Part>>;
+/** The settings for `delegates`: which members to forward from each component, and which component owns a conflicting member.
+ * - `forward`: the members to forward per part: `{ logger: ["log"] }`. The parts not listed forward all their string-keyed members (except for `constructor` and the members named like the parts).
+ * - `resolve`: the owner for the members forwarded by more than one part: `{ clear: "store" }`. Required for every conflict - otherwise a type error (and a runtime error).
+ */
+export interface DelegatesSettings<Parts extends Record<string, DelegatePart> = Record<string, DelegatePart>> {
+    forward?: { [Key in keyof Parts]?: Array<keyof DelegateInstance<Parts[Key]>>; };
+    resolve?: Record<string, keyof Parts>;
+}
+/** The constructor args for the class made by `delegates`: an optional object holding the constructor args for each component: `{ logger: ["app"] }`. */
+export type DelegatesArgs<Parts extends Record<string, DelegatePart>> = { [Key in keyof Parts]?: GetConstructorArgs<DelegateClass<Parts[Key]>, any[]>; };
+/** The instance type of the class made by `delegates`: the components by their part names, and the forwarded members of each component.
+ * - The conflicts are resolved by the `resolve` setting: the member is typed by its owner.
+ * - If a component forwards all its members (and there are no conflicts), its instance type is used as is. Otherwise its members are picked - which types the methods as properties (so a subclass should override them as properties too).
+ *
+ * ```
+ *
+ * // Create parts.
+ * class Logger { log(msg: string): void {} clear(): void {} }
+ * const mixinStore = (Base: ClassType) => class Store extends Base { items: string[] = []; clear(): void {} }
+ *
+ * // Test.
+ * type Parts = { logger: typeof Logger; store: MergeMixins<[typeof mixinStore]>; };
+ * type Delegated = DelegatesInstance<Parts, { resolve: { clear: "store"; }; }>;
+ * // { logger: Logger; store: Store; } & { log: Logger["log"]; } & { items: string[]; clear: Store["clear"]; }
+ *
+ * ```
+ */
+export type DelegatesInstance<Parts extends Record<string, DelegatePart>, Settings extends DelegatesSettings<Parts> = {}> =
+    { [Key in keyof Parts]: DelegateInstance<Parts[Key]>; } & UnionToIntersection<DelegatedMembers<Parts, Settings>>;
+/** The class type made by `delegates`. */
+export type DelegatesClass<Parts extends Record<string, DelegatePart>, Settings extends DelegatesSettings<Parts> = {}> =
+    AsClass<{}, DelegatesInstance<Parts, Settings>, [args?: DelegatesArgs<Parts>]>;
+/** The members forwarded by more than one part, but not resolved by the `resolve` setting. */
+export type DelegatesConflicts<Parts extends Record<string, DelegatePart>, Settings extends DelegatesSettings<Parts> = {}> =
+    Exclude<ConflictingMembers<Parts, Settings>, Settings extends { resolve: infer Resolve; } ? keyof Resolve : never>;
+/** The settings arg for `delegates`: optional without conflicts, and otherwise required to resolve them. */
+type DelegatesSettingsArgs<Parts extends Record<string, DelegatePart>, Settings extends DelegatesSettings<Parts>> =
+    [DelegatesConflicts<Parts, Settings>] extends [never] ? [settings?: Settings] :
+    [settings: Settings & { resolve: { [Member in DelegatesConflicts<Parts, Settings> & string]: keyof Parts; }; }];
+/** The members that the part forwards: the ones listed in `forward`, or all members. Only string keys - excluding the members named like the parts, and `constructor`. */
+type ForwardedMembers<Parts, Settings, Key extends keyof Parts> =
+    Exclude<
+        Settings extends { forward: infer Forward; } ?
+            Key extends keyof Forward ? NonNullable<Forward[Key]> extends ReadonlyArray<infer Member> ? Member & keyof DelegateInstance<Parts[Key]> : keyof DelegateInstance<Parts[Key]> :
+            keyof DelegateInstance<Parts[Key]> :
+        keyof DelegateInstance<Parts[Key]>,
+        keyof Parts | "constructor"
+    > & string;
+/** The members forwarded by more than one part. */
+type ConflictingMembers<Parts, Settings, Key extends keyof Parts = keyof Parts> =
+    Key extends keyof Parts ? ForwardedMembers<Parts, Settings, Key> & AnyForwardedMembers<Parts, Settings, Exclude<keyof Parts, Key>> : never;
+/** The members forwarded by any of the parts. */
+type AnyForwardedMembers<Parts, Settings, Key extends keyof Parts> = Key extends keyof Parts ? ForwardedMembers<Parts, Settings, Key> : never;
+/** The members delegated to each part: the forwarded members without conflicts, and the conflicts resolved to the part. Returns a union of the picked instances. */
+type DelegatedMembers<Parts extends Record<string, DelegatePart>, Settings, Key extends keyof Parts = keyof Parts> =
+    Key extends keyof Parts ?
+        PickDelegated<
+            DelegateInstance<Parts[Key]>,
+            Exclude<ForwardedMembers<Parts, Settings, Key>, ConflictingMembers<Parts, Settings>> |
+            (ForwardedMembers<Parts, Settings, Key> & (Settings extends { resolve: infer Resolve; } ? { [Member in keyof Resolve]: Resolve[Member] extends Key ? Member : never; }[keyof Resolve] : never))
+        > :
+    never;
+/** Use the instance as is if all of its members are delegated (to keep its methods as methods), or pick the delegated members. */
+type PickDelegated<Instance, Members> =
+    [keyof Instance] extends [Members] ? Instance :
+    Pick<Instance, Members & keyof Instance>;
+/** Convert a union into an intersection: `A | B` to `A & B`. */
+type UnionToIntersection<Union> = (Union extends any ? (arg: Union) => void : never) extends (arg: infer Intersection) => void ? Intersection : never;
+
 
 // - Func equivalents - //
 
-/** The type for the `mixins` function, including evaluating the sequence and returning combined class type. */
-export type MixinsFunc = <Mixins extends Array<(Base: ClassType) => ClassType>>(...mixins: ValidateMixins<Mixins>) => MergeMixins<Mixins>;
-/** The type for the `mixinsWith` function, including evaluating the sequence and returning combined class type. */
-export type MixinsWithFunc = <Base extends ClassType, Mixins extends Array<(Base: ClassType) => ClassType>>(Base: Base, ...mixins: ValidateMixins<Mixins, Base>) => MergeMixinsWith<Base, Mixins>;
+/** The type for the `mixins` function, including evaluating the sequence and returning combined class type. Optionally typed by the settings for `createMixins`. */
+export type MixinsFunc<Settings extends MixinsSettings = {}> = <Mixins extends Array<MixinEntry | FalsyMixin>>(...mixins: ValidateMixins<Mixins, ClassType, Settings["strictDuplicates"] extends true ? true : false>) =>
+    Settings["mixinOptions"] extends true ? MergeMixins<Mixins, [options: MixinsOptions<Mixins>]> : MergeMixins<Mixins>;
+/** The type for the `mixinsWith` function, including evaluating the sequence and returning combined class type. Optionally typed by the settings for `createMixins`. */
+export type MixinsWithFunc<Settings extends MixinsSettings = {}> = <Base extends AbstractClassType, Mixins extends Array<MixinEntry | FalsyMixin>>(Base: Base, ...mixins: ValidateMixins<Mixins, Base, Settings["strictDuplicates"] extends true ? true : false>) =>
+    Settings["mixinOptions"] extends true ? MergeMixinsWith<Base, Mixins, [options: MixinsOptions<Mixins>, ...baseArgs: ConstructorParameters<Base>]> : MergeMixinsWith<Base, Mixins>;
@@ -0,0 +1,54 @@
+// - Imports - //
+
+import { ClassType, composeMixins, createMixins, defineMixin, isMixedWith, MixinOptions, mixins, mixinsWith, MixinsOptions } from "../src/index";
+import { check, checkThrows, Expect, IsEqual } from "./utils";
+
+
+// - Mixins - //
+
+const mixinOne = (Base: ClassType) => class One extends Base {
+    num: number;
+    constructor(options: { num: number; }) { super(); this.num = options.num; }
+};
+const mixinTwo = defineMixin({ optionKeys: ["nm"] }, (Base: ClassType) => class Two extends Base {
+    nm: string;
+    constructor(options: { nm: string; }) { super(); this.nm = options.nm; }
+});
+const mixinBundle = composeMixins(mixinOne, mixinTwo);
+const mixinPlain = (Base: ClassType) => class Plain extends Base { plain: boolean = true; };
+const mixinLabel = (Base: ClassType) => class Label extends Base { label: string = "label"; };
+
+
+// - Type tests - //
+
+type Tests = [
+    Expect<IsEqual<keyof MixinsOptions<[typeof mixinBundle]>, "num" | "nm">>,
+    Expect<IsEqual<MixinOptions<typeof mixinOne>, { num: number; }>>
+];
+
+
+// - Runtime tests - //
+
+// Brands - applied directly and within a chain.
+const mixinPlainBundle = composeMixins(mixinPlain, mixinLabel);
+const Bundled = mixins(mixinPlainBundle);
+check("bundle brand", isMixedWith(new Bundled(), mixinPlainBundle), true);
+check("inner brand", isMixedWith(new Bundled(), mixinPlain), true);
+check("re-applied inner", isMixedWith(new (mixinsWith(Bundled, mixinLabel))(), mixinLabel), true);
+check("bundle name", Bundled.name, "Label<Plain<Object>>");
+
+// Routed options reach the inner layers.
+const { mixins: mixinsOptions } = createMixins({ mixinOptions: true });
+const Routed = mixinsOptions(mixinPlain, mixinBundle);
+const routed = new Routed({ num: 1, nm: "x" });
+check("routed inner layer", routed.num, 1);
+check("routed last layer", routed.nm, "x");
+check("routed plain", routed.plain, true);
+
+// The chain name includes the inner layers.
+check("chain name", Routed.name, "Two<One<Plain<Object>>>");
+
+// Validation runs on the inner layers.
+const mixinForgot = ((Base: ClassType) => class Forgot { }) as unknown as (Base: ClassType) => ClassType;
+const { mixins: mixinsValidated } = createMixins({ validate: true });
+checkThrows("validated inner layer", () => mixinsValidated(composeMixins(mixinPlain, mixinForgot)), "Is `extends Base` missing?");
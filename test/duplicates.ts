@@ -0,0 +1,44 @@
+// - Imports - //
+
+import { ClassType, createMixins, getMixinChain, MixinChainOf, mixins, ResolveMixins } from "../src/index";
+import { check, checkThrows, Expect, IsEqual } from "./utils";
+
+
+// - Mixins - //
+
+interface MyInfo { something: boolean; }
+const mixinTest1 = <Info = {}>(Base: ClassType) => class Test1 extends Base { num: number = 5; testMe(testInfo: Info): void { } };
+// Dependent mixin adding no members.
+const mixinTest3 = <Info = {}>(Base: ReturnType<typeof mixinTest1<Info>>) => class Test3 extends Base { };
+const mixinGreet = (Base: ClassType) => class Greet extends Base { greet(): string { return "hi"; } };
+// Override-only mixin.
+const mixinOverride = (Base: ReturnType<typeof mixinGreet>) => class Override extends Base { greet(): string { return "!" + super.greet(); } };
+const { mixins: mixinsStrict } = createMixins({ strictDuplicates: true });
+
+
+// - Type tests - //
+
+type DependentChain = ResolveMixins<[typeof mixinTest1<MyInfo>, typeof mixinTest3<MyInfo>]>;
+type OverrideChain = ResolveMixins<[typeof mixinGreet, typeof mixinOverride]>;
+type DuplicateChain = ResolveMixins<[typeof mixinGreet, typeof mixinGreet]>;
+type Tests = [
+    Expect<IsEqual<DependentChain["length"], 2>>,
+    Expect<IsEqual<OverrideChain, [typeof mixinGreet, typeof mixinOverride]>>,
+    Expect<IsEqual<DuplicateChain, [typeof mixinGreet]>>,
+    Expect<IsEqual<MixinChainOf<typeof Overridden>["mixins"]["length"], 2>>
+];
+
+
+// - Runtime tests - //
+
+// Strict mode accepts mixins extending the earlier ones.
+const Dependent = mixinsStrict(mixinTest1<MyInfo>, mixinTest3<MyInfo>);
+check("dependent mixin", new Dependent().num, 5);
+const Overridden = mixinsStrict(mixinGreet, mixinOverride);
+check("override mixin", new Overridden().greet(), "!hi");
+check("override chain", getMixinChain(Overridden)?.mixins.length, 2);
+
+// Strict mode reports duplicates.
+// @ts-expect-error - Duplicate mixin.
+checkThrows("strict duplicate", () => mixinsStrict(mixinGreet, mixinGreet), "Duplicate mixin");
+check("skipped duplicate", getMixinChain(mixins(mixinGreet, mixinGreet))?.mixins.length, 1);
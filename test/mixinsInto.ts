@@ -0,0 +1,35 @@
+// - Imports - //
+
+import { ClassType, composeMixins, isMixedWith, mixinsInto } from "../src/index";
+import { check } from "./utils";
+
+
+// - Mixins - //
+
+const mixinOne = (Base: ClassType) => class One extends Base { one(): number { return 1; } static ONE: number = 1; };
+const mixinTwo = (Base: ClassType) => class Two extends Base { two(): number { return 2; } both(): string { return "two"; } };
+const mixinThree = (Base: ClassType) => class Three extends Base { both(): string { return "three"; } };
+// A mixin creating two layers by itself.
+const mixinOuter = (Base: ClassType) => class Outer extends mixinThree(Base) { outer(): string { return "outer:" + super.both(); } };
+
+
+// - Runtime tests - //
+
+// A bundle copies all its inner layers.
+class Target { greet(): string { return "hello"; } }
+const Mixed = mixinsInto(Target, composeMixins(mixinOne, mixinTwo));
+const mixed = new Mixed();
+check("bundle lower layer", mixed.one(), 1);
+check("bundle higher layer", mixed.two(), 2);
+check("bundle statics", Mixed.ONE, 1);
+check("target kept", mixed.greet(), "hello");
+check("bundle brand", isMixedWith(mixed, mixinOne), true);
+check("bundle inner brand", isMixedWith(mixed, mixinTwo), true);
+
+// A mixin extending another mixin class copies both - the higher layer wins.
+class Other { both(): string { return "other"; } }
+const MixedOuter = mixinsInto(Other, mixinTwo, mixinOuter);
+const mixedOuter = new MixedOuter();
+check("outer layer", mixedOuter.outer(), "outer:three");
+check("higher layer wins", mixedOuter.both(), "three");
+check("earlier mixin", mixedOuter.two(), 2);
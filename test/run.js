@@ -0,0 +1,48 @@
+// - Imports - //
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { execFileSync } = require("child_process");
+
+
+// - Config - //
+
+// Usage: `node test/run.js [duplicates composeMixins ...]`.
+// .. Type-checks the test files (so the type tests are run by `tsc`), and then runs them - each test file throws on failure.
+const names = process.argv.slice(2);
+const tscPath = path.resolve(__dirname, "../node_modules/typescript/bin/tsc");
+const tscArgs = ["--skipLibCheck", "--target", "es2017", "--module", "commonjs", "--moduleResolution", "node", "--strictNullChecks", "--noEmitOnError"];
+const testFiles = fs.readdirSync(__dirname)
+    .filter(file => file.endsWith(".ts") && file !== "utils.ts" && (!names.length || names.includes(file.slice(0, -3))))
+    .map(file => path.join(__dirname, file));
+
+
+// - Run - //
+
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "mixin-types-test-"));
+let failed = 0;
+try {
+    try {
+        execFileSync(process.execPath, [tscPath, "--outDir", outDir, ...tscArgs, ...testFiles], { encoding: "utf8", stdio: "pipe" });
+    }
+    catch (error) {
+        console.error(error.stdout || error.message);
+        process.exit(1);
+    }
+    for (const file of testFiles) {
+        const name = path.basename(file, ".ts");
+        try {
+            execFileSync(process.execPath, [path.join(outDir, "test", name + ".js")], { encoding: "utf8", stdio: "pipe" });
+            console.log("ok - " + name);
+        }
+        catch (error) {
+            failed++;
+            console.error("failed - " + name + "\n" + (error.stderr || error.message));
+        }
+    }
+}
+finally {
+    fs.rmSync(outDir, { recursive: true, force: true });
+}
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,28 @@
+// - Type tests - //
+
+/** Check at compile time that the type is true: `type Test = Expect<IsEqual<A, B>>`. */
+export type Expect<T extends true> = T;
+/** Check whether the two types are identical. */
+export type IsEqual<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+
+
+// - Runtime tests - //
+
+/** Check that the value equals the expected value (using `Object.is`). Throws an error naming the check if not. */
+export function check(name: string, value: unknown, expected: unknown): void {
+    if (!Object.is(value, expected))
+        throw new Error("Check \"" + name + "\" failed: expected " + String(expected) + ", but got " + String(value) + ".");
+}
+
+/** Check that the function throws an error containing the message. */
+export function checkThrows(name: string, func: () => unknown, message: string): void {
+    try {
+        func();
+    }
+    catch (error) {
+        if (!(error instanceof Error) || !error.message.includes(message))
+            throw new Error("Check \"" + name + "\" failed: expected an error containing \"" + message + "\", but got: " + String(error));
+        return;
+    }
+    throw new Error("Check \"" + name + "\" failed: expected an error containing \"" + message + "\".");
+}
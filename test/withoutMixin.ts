@@ -0,0 +1,35 @@
+// - Imports - //
+
+import { ClassType, MixinChainOf, mixins, MixinError, OmitMixin, withoutMixin } from "../src/index";
+import { check, Expect, IsEqual } from "./utils";
+
+
+// - Mixins - //
+
+interface MyInfo { something: boolean; }
+const mixinTest1 = <Info = {}>(Base: ClassType) => class Test1 extends Base { num: number = 5; testMe(testInfo: Info): void { } };
+// Dependent mixin adding no members.
+const mixinTest3 = <Info = {}>(Base: ReturnType<typeof mixinTest1<Info>>) => class Test3 extends Base { };
+const mixinLogger = (Base: ClassType) => class Logger extends Base { log(): string { return "log"; } };
+
+
+// - Type tests - //
+
+type Remaining = OmitMixin<[typeof mixinTest1<MyInfo>, typeof mixinLogger, typeof mixinTest3<MyInfo>], typeof mixinLogger>;
+type Failed = OmitMixin<[typeof mixinTest1<MyInfo>, typeof mixinTest3<MyInfo>], typeof mixinTest1<MyInfo>>;
+type Tests = [
+    Expect<IsEqual<MixinChainOf<Remaining>["mixins"], readonly [typeof mixinTest1<MyInfo>, typeof mixinTest3<MyInfo>]>>,
+    Expect<Failed extends MixinError<0, "The required base is not satisfied by the earlier mixins."> ? true : false>
+];
+
+
+// - Runtime tests - //
+
+const MyMix = mixins(mixinTest1, mixinLogger, mixinTest3);
+const MyMixLite = withoutMixin(MyMix, mixinLogger);
+check("omitted", (new MyMixLite() as { log?: unknown; }).log, undefined);
+check("remaining", new MyMixLite().num, 5);
+
+// The dependent mixin is reported - even though it adds no members.
+// @ts-expect-error - mixinTest3 requires mixinTest1.
+withoutMixin(mixins(mixinTest1, mixinTest3), mixinTest1);